@@ -0,0 +1,32 @@
+import React from 'react';
+import { type AbandonReason } from '../services/api';
+import ReasonPickerDialog, { type ReasonOption } from './ReasonPickerDialog';
+
+export const ABANDON_REASONS: ReasonOption<AbandonReason>[] = [
+  { id: 'breakdown', name: 'Breakdown', icon: 'truck-remove' },
+  { id: 'accident', name: 'Accident', icon: 'car-emergency' },
+  { id: 'weather', name: 'Weather', icon: 'weather-lightning-rainy' },
+  { id: 'illness', name: 'Illness', icon: 'medical-bag' },
+  { id: 'other', name: 'Other', icon: 'dots-horizontal' },
+];
+
+interface AbandonRouteDialogProps {
+  visible: boolean;
+  remainingStops: number;
+  onSubmit: (reason: AbandonReason, note?: string) => void;
+  onCancel: () => void;
+}
+
+const AbandonRouteDialog: React.FC<AbandonRouteDialogProps> = ({ visible, remainingStops, onSubmit, onCancel }) => (
+  <ReasonPickerDialog
+    visible={visible}
+    title="End Route Early"
+    hint={`The ${remainingStops} stop${remainingStops === 1 ? '' : 's'} not yet visited will be handed back to dispatch.`}
+    reasons={ABANDON_REASONS}
+    submitLabel="End Route"
+    onSubmit={onSubmit}
+    onCancel={onCancel}
+  />
+);
+
+export default AbandonRouteDialog;
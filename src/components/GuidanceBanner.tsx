@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Linking, Platform, Alert } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { addSeconds, format } from 'date-fns';
+import { describeGuidance, formatDistance, type Guidance, type Manoeuvre } from '../utils/guidance';
+import { type LatLng } from '../utils/geo';
+
+const MANOEUVRE_ICONS: Record<Manoeuvre, keyof typeof MaterialCommunityIcons.glyphMap> = {
+  'straight': 'arrow-up',
+  'slight-left': 'arrow-top-left',
+  'left': 'arrow-left-top',
+  'sharp-left': 'arrow-u-left-top',
+  'slight-right': 'arrow-top-right',
+  'right': 'arrow-right-top',
+  'sharp-right': 'arrow-u-right-top',
+  'arrive': 'map-marker',
+};
+
+// Hand the next stop over to the device's maps app for full navigation
+const openExternalNavigation = async ({ latitude, longitude }: LatLng) => {
+  const destination = `${latitude},${longitude}`;
+  const nativeUrl = Platform.OS === 'ios'
+    ? `maps://?daddr=${destination}&dirflg=d`
+    : `google.navigation:q=${destination}`;
+  const webUrl = `https://www.google.com/maps/dir/?api=1&destination=${destination}&travelmode=driving`;
+  try {
+    await Linking.openURL(nativeUrl);
+  } catch {
+    // No native maps app handles the URL, so fall back to maps in the browser
+    try {
+      await Linking.openURL(webUrl);
+    } catch (error) {
+      console.error('Error opening external navigation:', error);
+      Alert.alert('Navigation Unavailable', 'Could not open a maps app on this device.');
+    }
+  }
+};
+
+interface GuidanceBannerProps {
+  guidance: Guidance;
+  destinationName: string;
+  destination: LatLng;
+}
+
+const GuidanceBanner: React.FC<GuidanceBannerProps> = ({ guidance, destinationName, destination }) => (
+  <View style={[styles.container, guidance.offRoute && styles.containerOffRoute]}>
+    <View style={[styles.iconContainer, guidance.offRoute && styles.iconContainerOffRoute]}>
+      {guidance.offRoute ? (
+        // Point the arrow along the bearing to the stop
+        <MaterialCommunityIcons
+          name="navigation"
+          size={28}
+          color="#fff"
+          style={{ transform: [{ rotate: `${Math.round(guidance.heading)}deg` }] }}
+        />
+      ) : (
+        <MaterialCommunityIcons name={MANOEUVRE_ICONS[guidance.manoeuvre]} size={28} color="#fff" />
+      )}
+    </View>
+    <View style={styles.info}>
+      <Text style={styles.instruction}>{describeGuidance(guidance)}</Text>
+      <Text style={styles.details}>
+        {destinationName} - {formatDistance(guidance.distanceRemaining)} - ETA{' '}
+        {format(addSeconds(new Date(), guidance.etaSeconds), 'h:mm a')}
+      </Text>
+    </View>
+    <TouchableOpacity style={styles.navigateButton} onPress={() => openExternalNavigation(destination)}>
+      <MaterialCommunityIcons name="directions" size={24} color="#12805c" />
+    </TouchableOpacity>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 16,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 6,
+  },
+  containerOffRoute: {
+    borderWidth: 2,
+    borderColor: '#F59E0B',
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#12805c',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconContainerOffRoute: {
+    backgroundColor: '#F59E0B',
+  },
+  info: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  instruction: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  details: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  navigateButton: {
+    padding: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#12805c',
+    marginLeft: 8,
+  },
+});
+
+export default GuidanceBanner;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { type PauseReason } from '../services/api';
+import ReasonPickerDialog, { type ReasonOption } from './ReasonPickerDialog';
+
+export const PAUSE_REASONS: ReasonOption<PauseReason>[] = [
+  { id: 'break', name: 'Break', icon: 'coffee' },
+  { id: 'refuel', name: 'Refuel', icon: 'gas-station' },
+  { id: 'truck-swap', name: 'Truck Swap', icon: 'truck' },
+  { id: 'other', name: 'Other', icon: 'dots-horizontal' },
+];
+
+interface PauseRouteDialogProps {
+  visible: boolean;
+  onSubmit: (reason: PauseReason, note?: string) => void;
+  onCancel: () => void;
+}
+
+const PauseRouteDialog: React.FC<PauseRouteDialogProps> = ({ visible, onSubmit, onCancel }) => (
+  <ReasonPickerDialog
+    visible={visible}
+    title="Pause Route"
+    reasons={PAUSE_REASONS}
+    submitLabel="Pause"
+    onSubmit={onSubmit}
+    onCancel={onCancel}
+  />
+);
+
+export default PauseRouteDialog;
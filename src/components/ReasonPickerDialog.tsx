@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+
+interface ReasonOption<T extends string> {
+  id: T;
+  name: string;
+  icon: keyof typeof MaterialCommunityIcons.glyphMap;
+}
+
+interface ReasonPickerDialogProps<T extends string> {
+  visible: boolean;
+  title: string;
+  hint?: string;
+  reasons: ReasonOption<T>[];
+  submitLabel: string;
+  multilineNote?: boolean;
+  children?: React.ReactNode; // Extra fields shown under the note, e.g. a photo
+  onSubmit: (reason: T, note?: string) => void;
+  onCancel: () => void;
+}
+
+// Asks why, with a reason to pick and an optional note; the dialogs for skipping a stop,
+// pausing and ending a route all build on it
+const ReasonPickerDialog = <T extends string>({
+  visible,
+  title,
+  hint,
+  reasons,
+  submitLabel,
+  multilineNote = false,
+  children,
+  onSubmit,
+  onCancel,
+}: ReasonPickerDialogProps<T>) => {
+  const [reason, setReason] = useState<T | null>(null);
+  const [note, setNote] = useState('');
+
+  const reset = () => {
+    setReason(null);
+    setNote('');
+  };
+
+  const handleSubmit = () => {
+    if (!reason) return;
+    onSubmit(reason, note.trim() || undefined);
+    reset();
+  };
+
+  const handleCancel = () => {
+    reset();
+    onCancel();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide">
+      <View style={styles.container}>
+        <View style={styles.dialog}>
+          <Text style={[styles.title, hint ? styles.titleWithHint : null]}>{title}</Text>
+          {hint && <Text style={styles.hint}>{hint}</Text>}
+
+          <Text style={styles.sectionTitle}>Reason:</Text>
+          <View style={styles.reasonContainer}>
+            {reasons.map(item => (
+              <TouchableOpacity
+                key={item.id}
+                style={[styles.reasonButton, reason === item.id && styles.reasonButtonSelected]}
+                onPress={() => setReason(item.id)}
+              >
+                <MaterialCommunityIcons
+                  name={item.icon}
+                  size={22}
+                  color={reason === item.id ? '#12805c' : '#666'}
+                />
+                <Text style={styles.reasonText}>{item.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={[styles.input, multilineNote && styles.inputMultiline]}
+            placeholder="Add a note (optional)"
+            value={note}
+            onChangeText={setNote}
+            multiline={multilineNote}
+            textAlignVertical={multilineNote ? 'top' : undefined}
+          />
+
+          {children}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={handleCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, !reason && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={!reason}
+            >
+              <Text style={styles.submitButtonText}>{submitLabel}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  dialog: {
+    width: '90%',
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+  },
+  titleWithHint: {
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    alignSelf: 'flex-start',
+    marginBottom: 10,
+  },
+  reasonContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    width: '100%',
+    marginBottom: 10,
+  },
+  reasonButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '48%',
+    padding: 10,
+    marginBottom: 10,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f5f5f5',
+  },
+  reasonButtonSelected: {
+    borderColor: '#12805c',
+    backgroundColor: '#e8f5e9',
+  },
+  reasonText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 4,
+    padding: 10,
+    marginBottom: 15,
+    fontSize: 16,
+  },
+  inputMultiline: {
+    height: 80,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+  },
+  cancelButton: {
+    backgroundColor: '#EF4444',
+    padding: 10,
+    borderRadius: 4,
+    flex: 1,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  submitButton: {
+    backgroundColor: '#10B981',
+    padding: 10,
+    borderRadius: 4,
+    flex: 1,
+    marginLeft: 10,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#D1D5DB',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
+
+export default ReasonPickerDialog;
+export type { ReasonOption };
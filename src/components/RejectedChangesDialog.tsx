@@ -0,0 +1,185 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, Alert } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { type MutationType, type QueuedMutation } from '../services/syncQueue';
+
+const MUTATION_LABELS: Record<MutationType, string> = {
+  'schedule-status': 'Route status change',
+  'collect-bin': 'Bin collected',
+  'skip-bin': 'Bin skipped',
+  'reorder-stops': 'Stops reordered',
+  'track': 'Driven path',
+  'stop-visit': 'Stop arrival',
+  'dump-trip': 'Dump trip',
+  'abandon-route': 'Route ended early',
+};
+
+interface RejectedChangesDialogProps {
+  visible: boolean;
+  mutations: QueuedMutation[];
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onClose: () => void;
+}
+
+const RejectedChangesDialog: React.FC<RejectedChangesDialogProps> = ({
+  visible,
+  mutations,
+  onRetry,
+  onDiscard,
+  onClose,
+}) => {
+  // Discarding loses the change for good, so ask first
+  const confirmDiscard = (mutation: QueuedMutation) => {
+    Alert.alert(
+      'Discard Change',
+      `"${MUTATION_LABELS[mutation.type]}" will not be sent to the server. Tell your supervisor so it can be recorded another way.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => onDiscard(mutation.id) },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide">
+      <View style={styles.container}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>Changes Not Accepted</Text>
+          <Text style={styles.hint}>
+            The server refused these changes. Retry once the problem is fixed, or discard them.
+          </Text>
+
+          <ScrollView style={styles.list}>
+            {mutations.length === 0 && <Text style={styles.emptyText}>Nothing left to review.</Text>}
+            {mutations.map(mutation => (
+              <View key={mutation.id} style={styles.item}>
+                <View style={styles.itemHeader}>
+                  <MaterialCommunityIcons name="cloud-alert" size={18} color="#B91C1C" />
+                  <Text style={styles.itemTitle}>{MUTATION_LABELS[mutation.type]}</Text>
+                  <Text style={styles.itemTime}>{format(new Date(mutation.createdAt), 'h:mm a')}</Text>
+                </View>
+                {mutation.lastError && <Text style={styles.itemError}>{mutation.lastError}</Text>}
+                <View style={styles.itemActions}>
+                  <TouchableOpacity style={styles.discardButton} onPress={() => confirmDiscard(mutation)}>
+                    <Text style={styles.discardButtonText}>Discard</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.retryButton} onPress={() => onRetry(mutation.id)}>
+                    <Text style={styles.retryButtonText}>Retry</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  dialog: {
+    width: '90%',
+    maxHeight: '80%',
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  list: {
+    width: '100%',
+    marginBottom: 15,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  item: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemTitle: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  itemTime: {
+    fontSize: 12,
+    color: '#666',
+  },
+  itemError: {
+    fontSize: 13,
+    color: '#B91C1C',
+    marginTop: 6,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 10,
+  },
+  discardButton: {
+    backgroundColor: '#EF4444',
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 4,
+    marginRight: 10,
+  },
+  discardButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  retryButton: {
+    backgroundColor: '#10B981',
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 4,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  closeButton: {
+    backgroundColor: '#6B7280',
+    padding: 10,
+    borderRadius: 4,
+    width: '100%',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
+
+export default RejectedChangesDialog;
@@ -0,0 +1,355 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Animated,
+  PanResponder,
+} from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { type Bin, type ResequenceReason } from '../services/api';
+
+export const RESEQUENCE_REASONS: { id: ResequenceReason; name: string }[] = [
+  { id: 'road-closed', name: 'Road Closed' },
+  { id: 'traffic', name: 'Heavy Traffic' },
+  { id: 'access', name: 'Access Times' },
+  { id: 'other', name: 'Other' },
+];
+
+// Rows have a fixed height so a drag distance maps straight to a number of places moved
+const ROW_HEIGHT = 56;
+
+interface StopRowProps {
+  bin: Bin;
+  position: number;
+  total: number;
+  onDragStateChange: (dragging: boolean) => void;
+  onDrop: (from: number, to: number) => void;
+  onMakeNext: () => void;
+}
+
+const StopRow: React.FC<StopRowProps> = ({ bin, position, total, onDragStateChange, onDrop, onMakeNext }) => {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const [dragging, setDragging] = useState(false);
+  // The responder is created once, so it reads the latest props through a ref
+  const latest = useRef({ position, total, onDrop, onDragStateChange });
+  latest.current = { position, total, onDrop, onDragStateChange };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        setDragging(true);
+        latest.current.onDragStateChange(true);
+      },
+      onPanResponderMove: Animated.event([null, { dy: translateY }], { useNativeDriver: false }),
+      onPanResponderRelease: (_, gesture) => {
+        const { position: from, total: count } = latest.current;
+        const to = Math.max(0, Math.min(count - 1, from + Math.round(gesture.dy / ROW_HEIGHT)));
+        translateY.setValue(0);
+        setDragging(false);
+        latest.current.onDragStateChange(false);
+        if (to !== from) latest.current.onDrop(from, to);
+      },
+      onPanResponderTerminate: () => {
+        translateY.setValue(0);
+        setDragging(false);
+        latest.current.onDragStateChange(false);
+      },
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      style={[
+        styles.stopRow,
+        dragging && styles.stopRowDragging,
+        { transform: [{ translateY }], zIndex: dragging ? 10 : 0 },
+      ]}
+    >
+      <View {...panResponder.panHandlers} style={styles.dragHandle}>
+        <MaterialCommunityIcons name="drag-horizontal-variant" size={24} color="#666" />
+      </View>
+      <View style={styles.stopNumberBadge}>
+        <Text style={styles.stopNumberText}>{position + 1}</Text>
+      </View>
+      <View style={styles.stopInfo}>
+        <Text style={styles.stopTitle} numberOfLines={1}>{bin.address || `Bin ${bin._id}`}</Text>
+        <Text style={styles.stopSubtitle}>{bin.wasteType || 'General'} - {bin.fillLevel || 0}%</Text>
+      </View>
+      {position > 0 && (
+        <TouchableOpacity style={styles.nextButton} onPress={onMakeNext}>
+          <Text style={styles.nextButtonText}>Next</Text>
+        </TouchableOpacity>
+      )}
+    </Animated.View>
+  );
+};
+
+interface ReorderStopsDialogProps {
+  visible: boolean;
+  stops: Bin[];
+  onSubmit: (binIds: string[], reason: ResequenceReason, note?: string) => void;
+  onCancel: () => void;
+}
+
+const ReorderStopsDialog: React.FC<ReorderStopsDialogProps> = ({ visible, stops, onSubmit, onCancel }) => {
+  const [order, setOrder] = useState<Bin[]>(stops);
+  const [reason, setReason] = useState<ResequenceReason | null>(null);
+  const [note, setNote] = useState('');
+  const [dragging, setDragging] = useState(false);
+
+  // Start from the route's current order each time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      setOrder(stops);
+      setReason(null);
+      setNote('');
+    }
+  }, [visible]);
+
+  const moveStop = (from: number, to: number) => {
+    setOrder(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const changed = order.some((bin, index) => bin._id !== stops[index]?._id);
+
+  const handleSubmit = () => {
+    if (!reason || !changed) return;
+    onSubmit(order.map(bin => bin._id), reason, note.trim() || undefined);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide">
+      <View style={styles.container}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>Reorder Remaining Stops</Text>
+          <Text style={styles.hint}>Drag a stop by its handle, or tap Next to go there straight away.</Text>
+
+          <ScrollView style={styles.list} scrollEnabled={!dragging}>
+            {order.map((bin, index) => (
+              <StopRow
+                key={bin._id}
+                bin={bin}
+                position={index}
+                total={order.length}
+                onDragStateChange={setDragging}
+                onDrop={moveStop}
+                onMakeNext={() => moveStop(index, 0)}
+              />
+            ))}
+          </ScrollView>
+
+          <Text style={styles.sectionTitle}>Reason:</Text>
+          <View style={styles.reasonContainer}>
+            {RESEQUENCE_REASONS.map(item => (
+              <TouchableOpacity
+                key={item.id}
+                style={[styles.reasonButton, reason === item.id && styles.reasonButtonSelected]}
+                onPress={() => setReason(item.id)}
+              >
+                <Text style={styles.reasonText}>{item.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={styles.input}
+            placeholder="Add a note (optional)"
+            value={note}
+            onChangeText={setNote}
+          />
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, (!reason || !changed) && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={!reason || !changed}
+            >
+              <Text style={styles.submitButtonText}>Save Order</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  dialog: {
+    width: '90%',
+    maxHeight: '85%',
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  list: {
+    width: '100%',
+    maxHeight: ROW_HEIGHT * 6,
+    marginBottom: 12,
+  },
+  stopRow: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  stopRowDragging: {
+    backgroundColor: '#e8f5e9',
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 3,
+  },
+  dragHandle: {
+    paddingHorizontal: 6,
+    height: '100%',
+    justifyContent: 'center',
+  },
+  stopNumberBadge: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: '#12805c',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  stopNumberText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  stopSubtitle: {
+    fontSize: 12,
+    color: '#666',
+  },
+  nextButton: {
+    borderWidth: 1,
+    borderColor: '#12805c',
+    borderRadius: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  nextButtonText: {
+    color: '#12805c',
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    alignSelf: 'flex-start',
+    marginBottom: 10,
+  },
+  reasonContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    width: '100%',
+  },
+  reasonButton: {
+    width: '48%',
+    padding: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+  },
+  reasonButtonSelected: {
+    borderColor: '#12805c',
+    backgroundColor: '#e8f5e9',
+  },
+  reasonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 4,
+    padding: 10,
+    marginVertical: 12,
+    fontSize: 16,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+  },
+  cancelButton: {
+    backgroundColor: '#EF4444',
+    padding: 10,
+    borderRadius: 4,
+    flex: 1,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  submitButton: {
+    backgroundColor: '#10B981',
+    padding: 10,
+    borderRadius: 4,
+    flex: 1,
+    marginLeft: 10,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#D1D5DB',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
+
+export default ReorderStopsDialog;
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import MapView, { Marker, Polyline, PROVIDER_GOOGLE } from 'react-native-maps';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { type TrackPoint } from '../services/api';
+import { getBoundingBox, type LatLng } from '../utils/geo';
+import { type StopOutcome } from '../utils/routeReport';
+
+interface ReplayStop extends LatLng {
+  binId: string;
+  stopNumber: number;
+  outcome: StopOutcome;
+}
+
+interface RouteReplayMapProps {
+  track: TrackPoint[];
+  plannedRoute: LatLng[];
+  stops: ReplayStop[];
+}
+
+// The whole drive is replayed in about this many frames, whatever its length
+const REPLAY_FRAMES = 200;
+const FRAME_INTERVAL_MS = 100;
+
+const OUTCOME_COLORS: Record<StopOutcome, string> = {
+  'collected': '#12805c',
+  'skipped': '#4B5563',
+  'handed-back': '#B45309',
+  'not-visited': '#9E9E9E',
+};
+
+const RouteReplayMap: React.FC<RouteReplayMapProps> = ({ track, plannedRoute, stops }) => {
+  const mapRef = useRef<MapView>(null);
+  const [playing, setPlaying] = useState(false);
+  const [replayIndex, setReplayIndex] = useState(track.length - 1);
+  const step = Math.max(1, Math.ceil(track.length / REPLAY_FRAMES));
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setReplayIndex(index => {
+        const next = Math.min(track.length - 1, index + step);
+        if (next === track.length - 1) setPlaying(false);
+        return next;
+      });
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [playing, step, track.length]);
+
+  const togglePlaying = () => {
+    // Start again from the beginning once the replay has reached the end
+    if (!playing && replayIndex >= track.length - 1) setReplayIndex(0);
+    setPlaying(!playing);
+  };
+
+  const fitToRoute = () => {
+    const bounds = getBoundingBox([...track, ...plannedRoute, ...stops]);
+    if (!bounds) return;
+    mapRef.current?.fitToCoordinates(
+      [
+        { latitude: bounds.minLat, longitude: bounds.minLng },
+        { latitude: bounds.maxLat, longitude: bounds.maxLng },
+      ],
+      { edgePadding: { top: 30, right: 30, bottom: 30, left: 30 }, animated: false }
+    );
+  };
+
+  const truck = track[replayIndex];
+  const driven = track.slice(0, replayIndex + 1);
+
+  return (
+    <View>
+      <View style={styles.mapContainer}>
+        <MapView ref={mapRef} style={styles.map} provider={PROVIDER_GOOGLE} onMapReady={fitToRoute}>
+          {plannedRoute.length > 1 && (
+            <Polyline coordinates={plannedRoute} strokeColor="#9CA3AF" strokeWidth={3} lineDashPattern={[8, 6]} />
+          )}
+          {driven.length > 1 && <Polyline coordinates={driven} strokeColor="#12805c" strokeWidth={4} />}
+          {stops.map(stop => (
+            <Marker
+              key={stop.binId}
+              coordinate={{ latitude: stop.latitude, longitude: stop.longitude }}
+              title={`Stop ${stop.stopNumber}`}
+              anchor={{ x: 0.5, y: 0.5 }}
+            >
+              <View style={[styles.stopMarker, { backgroundColor: OUTCOME_COLORS[stop.outcome] }]}>
+                <Text style={styles.stopMarkerText}>{stop.stopNumber}</Text>
+              </View>
+            </Marker>
+          ))}
+          {truck && (
+            <Marker coordinate={truck} anchor={{ x: 0.5, y: 0.5 }} zIndex={10}>
+              <View style={styles.truckMarker}>
+                <MaterialCommunityIcons name="truck" size={14} color="#FFF" />
+              </View>
+            </Marker>
+          )}
+        </MapView>
+      </View>
+      {track.length > 1 && (
+        <View style={styles.controls}>
+          <TouchableOpacity style={styles.playButton} onPress={togglePlaying}>
+            <MaterialCommunityIcons name={playing ? 'pause' : 'play'} size={22} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${(replayIndex / (track.length - 1)) * 100}%` }]} />
+          </View>
+          <Text style={styles.time}>{truck ? format(new Date(truck.timestamp), 'h:mm a') : '-'}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  mapContainer: {
+    height: 240,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  map: {
+    flex: 1,
+  },
+  stopMarker: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stopMarkerText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  truckMarker: {
+    backgroundColor: '#2563EB',
+    borderRadius: 14,
+    padding: 5,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  playButton: {
+    backgroundColor: '#12805c',
+    borderRadius: 18,
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  progressBar: {
+    flex: 1,
+    height: 6,
+    backgroundColor: '#eee',
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginHorizontal: 10,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#12805c',
+  },
+  time: {
+    fontSize: 13,
+    color: '#555',
+    width: 64,
+    textAlign: 'right',
+  },
+});
+
+export default RouteReplayMap;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Image, Alert } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { type SkipReason } from '../services/api';
+import { capturePhoto } from '../utils/imageUtils';
+import ReasonPickerDialog, { type ReasonOption } from './ReasonPickerDialog';
+
+export const SKIP_REASONS: ReasonOption<SkipReason>[] = [
+  { id: 'blocked', name: 'Blocked', icon: 'car' },
+  { id: 'inaccessible', name: 'Inaccessible', icon: 'gate' },
+  { id: 'damaged', name: 'Damaged', icon: 'delete-alert' },
+  { id: 'already-empty', name: 'Already Empty', icon: 'delete-empty' },
+];
+
+interface SkipStopDialogProps {
+  visible: boolean;
+  stopNumber: number;
+  onSubmit: (reason: SkipReason, note?: string, photoUri?: string) => void;
+  onCancel: () => void;
+}
+
+const SkipStopDialog: React.FC<SkipStopDialogProps> = ({
+  visible,
+  stopNumber,
+  onSubmit,
+  onCancel,
+}) => {
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+
+  const takePhoto = async () => {
+    try {
+      const uri = await capturePhoto();
+      if (uri) setPhotoUri(uri);
+    } catch (error: any) {
+      Alert.alert('Camera Unavailable', error?.message || 'Could not open the camera.');
+    }
+  };
+
+  const handleSubmit = (reason: SkipReason, note?: string) => {
+    onSubmit(reason, note, photoUri || undefined);
+    setPhotoUri(null);
+  };
+
+  const handleCancel = () => {
+    setPhotoUri(null);
+    onCancel();
+  };
+
+  return (
+    <ReasonPickerDialog
+      visible={visible}
+      title={`Skip Stop ${stopNumber}`}
+      reasons={SKIP_REASONS}
+      submitLabel="Skip Stop"
+      multilineNote
+      onSubmit={handleSubmit}
+      onCancel={handleCancel}
+    >
+      {photoUri ? (
+        <View style={styles.photoPreviewContainer}>
+          <Image source={{ uri: photoUri }} style={styles.photoPreview} />
+          <TouchableOpacity style={styles.removePhotoButton} onPress={() => setPhotoUri(null)}>
+            <MaterialCommunityIcons name="close" size={16} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.photoButton} onPress={takePhoto}>
+          <MaterialCommunityIcons name="camera" size={20} color="#12805c" />
+          <Text style={styles.photoButtonText}>Add Photo (optional)</Text>
+        </TouchableOpacity>
+      )}
+    </ReasonPickerDialog>
+  );
+};
+
+const styles = StyleSheet.create({
+  photoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginBottom: 20,
+  },
+  photoButtonText: {
+    marginLeft: 8,
+    color: '#12805c',
+    fontWeight: 'bold',
+  },
+  photoPreviewContainer: {
+    alignSelf: 'flex-start',
+    marginBottom: 20,
+  },
+  photoPreview: {
+    width: 80,
+    height: 80,
+    borderRadius: 4,
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: -8,
+    right: -8,
+    backgroundColor: '#EF4444',
+    borderRadius: 12,
+    width: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default SkipStopDialog;
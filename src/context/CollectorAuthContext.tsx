@@ -1,24 +1,35 @@
-import React, { createContext, useState, useContext, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useState, useContext, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AppState } from 'react-native';
 import axios from 'axios';
+import { apiClient, getApiBaseUrl, setAuthToken, setSessionRefresher, setUnauthorizedHandler } from '../services/apiClient';
+import { navigationRef } from '../navigation/navigationRef';
+import { CREDENTIAL_KEYS, secureCredentialStorage, type CredentialStorage } from '../services/credentialStorage';
+import { getCurrentCollector, type Collector } from '../services/api';
+import { cacheKeys, clearCache, fetchWithCache, readCache, writeCache } from '../services/cache';
+import { clearAllRouteSessions } from '../services/routeSession';
+import { getJwtExpiry, getJwtSubject } from '../utils/jwt';
 
-// API configuration
-const API_IP = '192.168.8.108'; 
-const API_PORT = '5000';
-const API_BASE = `http://${API_IP}:${API_PORT}/api`;
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please sign in again.';
+
+// Refresh this long before the access token lapses, and retry this often if a refresh fails
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const REFRESH_RETRY_MS = 60 * 1000;
+// Never refresh sooner than this, so a short-lived token or a skewed device clock can't cause a refresh loop
+const MIN_REFRESH_DELAY_MS = 15 * 1000;
+
+// How long to wait before refreshing a token that expires at the given time. Short-lived tokens
+// are refreshed halfway through what is left of them rather than a full margin early.
+const getRefreshDelay = (expiresAt: Date) => {
+  const remaining = expiresAt.getTime() - Date.now();
+  const margin = Math.min(REFRESH_MARGIN_MS, remaining / 2);
+  return Math.max(remaining - margin, MIN_REFRESH_DELAY_MS);
+};
 
 // Login API call for collector
 const loginCollector = async (username: string, password: string) => {
-  const url = `${API_BASE}/collector/login`;
-  console.log(`CollectorAPI: Attempting login for user: ${username} to ${url}`);
+  console.log(`CollectorAPI: Attempting login for user: ${username} to ${getApiBaseUrl()}/collector/login`);
   try {
-    // Set a longer timeout for the request (10 seconds)
-    const response = await axios.post(url, { username, password }, { 
-      timeout: 10000,
-      headers: {
-        'Content-Type': 'application/json',
-      }
-    });
+    const response = await apiClient.post('/collector/login', { username, password });
     console.log('CollectorAPI: Login successful, received token');
     return response.data;
   } catch (error) {
@@ -35,8 +46,27 @@ const loginCollector = async (username: string, password: string) => {
   }
 };
 
+// Exchange a refresh token for a new access token (and possibly a rotated refresh token)
+const refreshCollectorToken = async (refreshToken: string): Promise<{ token: string; refreshToken?: string }> => {
+  console.log('CollectorAPI: Refreshing session');
+  try {
+    const response = await apiClient.post('/collector/refresh-token', { refreshToken });
+    console.log('CollectorAPI: Session refreshed');
+    return response.data;
+  } catch (error) {
+    console.error('CollectorAPI: Session refresh failed:', error);
+    throw error;
+  }
+};
+
 interface CollectorAuthContextData {
   token: string | null;
+  // Unlike the token, this stays the same across silent refreshes, so effects that load data can depend on it
+  isSignedIn: boolean;
+  collector: Collector | null;
+  // Read from the token, so it is known even when the profile could not be loaded
+  collectorId: string | null;
+  sessionExpiresAt: Date | null;
   loading: boolean;
   error: string | null;
   signIn: (username: string, password: string) => Promise<void>;
@@ -45,18 +75,105 @@ interface CollectorAuthContextData {
 
 const CollectorAuthContext = createContext<CollectorAuthContextData>({} as CollectorAuthContextData);
 
-export const CollectorAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+interface CollectorAuthProviderProps {
+  children: React.ReactNode;
+  // Where credentials are persisted; defaults to the platform keystore
+  storage?: CredentialStorage;
+}
+
+export const CollectorAuthProvider: React.FC<CollectorAuthProviderProps> = ({
+  children,
+  storage = secureCredentialStorage,
+}) => {
   const [token, setToken] = useState<string | null>(null);
+  const [collector, setCollector] = useState<Collector | null>(null);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<Date | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const handlingExpiry = useRef(false);
+  const refreshTokenRef = useRef<string | null>(null);
+  const refreshInFlight = useRef<Promise<string | null> | null>(null);
+
+  // Falls back to the profile for tokens without a subject
+  const collectorId = useMemo(
+    () => (token ? getJwtSubject(token) ?? collector?._id ?? null : null),
+    [token, collector]
+  );
 
-  // Load token from storage when app starts
+  // The API client reads the token synchronously, so update it before any screen can re-render with the new state
+  const applyToken = (newToken: string | null) => {
+    setAuthToken(newToken);
+    setToken(newToken);
+    setSessionExpiresAt(newToken ? getJwtExpiry(newToken) : null);
+  };
+
+  const storeSession = async (newToken: string, newRefreshToken?: string) => {
+    // The refresh timer runs as soon as the new expiry is set, so it must already see the refresh token
+    if (newRefreshToken) {
+      refreshTokenRef.current = newRefreshToken;
+    }
+    applyToken(newToken);
+    await storage.setItem(CREDENTIAL_KEYS.authToken, newToken);
+    if (newRefreshToken) {
+      await storage.setItem(CREDENTIAL_KEYS.refreshToken, newRefreshToken);
+    }
+  };
+
+  // Resolves with the new access token, or null if there is no refresh token or the server rejected it.
+  // Any other failure, such as no connection or a server error, rejects and leaves the session alone.
+  // Concurrent callers share a single request.
+  const refreshSession = useCallback((): Promise<string | null> => {
+    if (refreshInFlight.current) return refreshInFlight.current;
+    const refreshToken = refreshTokenRef.current;
+    if (!refreshToken) return Promise.resolve(null);
+
+    const run = (async () => {
+      try {
+        const response = await refreshCollectorToken(refreshToken);
+        await storeSession(response.token, response.refreshToken);
+        return response.token;
+      } catch (e) {
+        console.error('CollectorAuthProvider: Failed to refresh session', e);
+        if (axios.isAxiosError(e) && (e.response?.status === 401 || e.response?.status === 403)) {
+          return null;
+        }
+        throw e;
+      } finally {
+        refreshInFlight.current = null;
+      }
+    })();
+    refreshInFlight.current = run;
+    return run;
+  }, [storage]);
+
+  // Fill in the full profile (area, vehicle) from the server, keeping the last copy for offline use
+  const loadCollectorProfile = useCallback(async () => {
+    try {
+      const { data } = await fetchWithCache(cacheKeys.collector, getCurrentCollector);
+      setCollector(data);
+    } catch (e) {
+      console.error('CollectorAuthProvider: Failed to load collector profile', e);
+    }
+  }, []);
+
+  // Load token from storage when app starts. An expired token is kept so cached routes still open offline;
+  // the refresh timer below renews it shortly after.
   useEffect(() => {
     const loadToken = async () => {
       try {
-        const storedToken = await AsyncStorage.getItem('@collector_auth_token');
+        const [storedToken, storedRefreshToken] = await Promise.all([
+          storage.getItem(CREDENTIAL_KEYS.authToken),
+          storage.getItem(CREDENTIAL_KEYS.refreshToken),
+        ]);
+        refreshTokenRef.current = storedRefreshToken;
         if (storedToken) {
-          setToken(storedToken);
+          applyToken(storedToken);
+          // Show the last known profile immediately, then refresh it in the background
+          const cachedProfile = await readCache<Collector>(cacheKeys.collector);
+          if (cachedProfile) {
+            setCollector(cachedProfile.data);
+          }
+          loadCollectorProfile();
         }
       } catch (e) {
         console.error('CollectorAuthProvider: Failed to load token from storage', e);
@@ -66,17 +183,33 @@ export const CollectorAuthProvider: React.FC<{ children: React.ReactNode }> = ({
     };
 
     loadToken();
-  }, []);
+  }, [storage, loadCollectorProfile]);
+
+  // Cached routes and saved progress belong to one collector, so none of it is left for the next one
+  const clearCollectorData = () => Promise.all([clearCache(), clearAllRouteSessions()]);
 
   const signIn = async (username: string, password: string) => {
     try {
       setLoading(true);
       setError(null);
       const response = await loginCollector(username, password);
+
+      // Data kept through an expired session is only for the collector it belonged to
+      const newCollectorId = getJwtSubject(response.token) ?? response.collector?._id;
+      const previousProfile = await readCache<Collector>(cacheKeys.collector);
+      if (previousProfile && previousProfile.data._id !== newCollectorId) {
+        await clearCollectorData();
+      }
       
-      const newToken = response.token;
-      setToken(newToken);
-      await AsyncStorage.setItem('@collector_auth_token', newToken);
+      handlingExpiry.current = false;
+      await storeSession(response.token, response.refreshToken);
+
+      // The login response carries the basic profile; /collector/me adds the area and vehicle
+      if (response.collector) {
+        setCollector(response.collector);
+        await writeCache(cacheKeys.collector, response.collector);
+      }
+      loadCollectorProfile();
     } catch (e: any) {
       console.error('CollectorAuthProvider: Sign in failed', e);
       setError(e.response?.data?.message || 'Failed to sign in');
@@ -86,17 +219,98 @@ export const CollectorAuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  const clearCredentials = async () => {
+    applyToken(null);
+    setCollector(null);
+    refreshTokenRef.current = null;
+    await Promise.all([
+      storage.removeItem(CREDENTIAL_KEYS.authToken),
+      storage.removeItem(CREDENTIAL_KEYS.refreshToken),
+    ]);
+  };
+
+  // Signing out on purpose drops the cached routes and saved progress too.
+  // Queued changes stay in the outbox and are sent when this collector signs in again.
   const signOut = async () => {
     try {
-      setToken(null);
-      await AsyncStorage.removeItem('@collector_auth_token');
+      await Promise.all([clearCredentials(), clearCollectorData()]);
     } catch (e) {
       console.error('CollectorAuthProvider: Failed to remove token from storage', e);
     }
   };
 
+  // The server rejected our token: send the collector back to login with an explanation.
+  // Only the credentials go; the cache and saved route progress are kept so the collector
+  // can sign straight back in and carry on. Several requests can fail at once, so only
+  // the first one is acted on.
+  const handleUnauthorized = useCallback(async () => {
+    if (handlingExpiry.current) return;
+    handlingExpiry.current = true;
+    console.log('CollectorAuthProvider: Session expired, signing out');
+    try {
+      await clearCredentials();
+    } catch (e) {
+      console.error('CollectorAuthProvider: Failed to remove token from storage', e);
+    }
+    setError(SESSION_EXPIRED_MESSAGE);
+    if (navigationRef.isReady()) {
+      navigationRef.reset({ index: 0, routes: [{ name: 'CollectorLogin' }] });
+    }
+  }, [storage]);
+
+  useEffect(() => {
+    setUnauthorizedHandler(handleUnauthorized);
+    setSessionRefresher(refreshSession);
+    return () => {
+      setUnauthorizedHandler(null);
+      setSessionRefresher(null);
+    };
+  }, [handleUnauthorized, refreshSession]);
+
+  // Refresh silently shortly before the access token lapses, retrying until it does
+  useEffect(() => {
+    if (!sessionExpiresAt || !refreshTokenRef.current) return;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const scheduleRefresh = (delay: number) => {
+      timer = setTimeout(async () => {
+        // On success the new expiry re-runs this effect, and a rejected refresh token can't be retried.
+        // If the server couldn't be reached, keep trying while the token is still valid.
+        try {
+          await refreshSession();
+        } catch (e) {
+          if (Date.now() < sessionExpiresAt.getTime()) {
+            scheduleRefresh(REFRESH_RETRY_MS);
+          }
+        }
+      }, delay);
+    };
+
+    scheduleRefresh(getRefreshDelay(sessionExpiresAt));
+    return () => clearTimeout(timer);
+  }, [sessionExpiresAt, refreshSession]);
+
+  // Timers don't run while the app is in the background, so check again when it comes back
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (
+        nextState === 'active' &&
+        sessionExpiresAt &&
+        getRefreshDelay(sessionExpiresAt) <= MIN_REFRESH_DELAY_MS
+      ) {
+        // Failures are logged by refreshSession and retried by the refresh timer
+        refreshSession().catch(() => {});
+      }
+    });
+    return () => subscription.remove();
+  }, [sessionExpiresAt, refreshSession]);
+
   const contextValue: CollectorAuthContextData = {
     token,
+    isSignedIn: token !== null,
+    collector,
+    collectorId,
+    sessionExpiresAt,
     loading,
     error,
     signIn,
@@ -0,0 +1,193 @@
+import React, { createContext, useState, useContext, useEffect, useCallback, useRef } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { useCollectorAuth } from './CollectorAuthContext';
+import {
+  discardRejectedMutation,
+  enqueueMutation,
+  getPendingMutations,
+  getRejectedMutations,
+  replayOutbox,
+  retryRejectedMutation,
+  type MutationPayloads,
+  type MutationSyncedListener,
+  type MutationType,
+  type QueuedMutation,
+} from '../services/syncQueue';
+
+// How often to retry a non-empty outbox while the device reports a connection
+const RETRY_INTERVAL_MS = 30000;
+
+interface SyncContextData {
+  isOnline: boolean;
+  syncing: boolean;
+  pendingMutations: QueuedMutation[];
+  rejectedMutations: QueuedMutation[]; // Refused by the server; kept until the collector retries or discards them
+  lastSyncedAt: Date | null;
+  queueMutation: <T extends MutationType>(type: T, scheduleId: string, payload: MutationPayloads[T]) => Promise<boolean>;
+  syncNow: () => Promise<void>;
+  retryRejected: (id: string) => Promise<void>;
+  discardRejected: (id: string) => Promise<void>;
+  subscribe: (listener: MutationSyncedListener) => () => void;
+}
+
+const SyncContext = createContext<SyncContextData>({} as SyncContextData);
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // The outbox can hold mutations from several collectors sharing a device; only the signed-in one's are used
+  const { isSignedIn, collectorId } = useCollectorAuth();
+  const [isOnline, setIsOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [pendingMutations, setPendingMutations] = useState<QueuedMutation[]>([]);
+  const [rejectedMutations, setRejectedMutations] = useState<QueuedMutation[]>([]);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const listeners = useRef(new Set<MutationSyncedListener>());
+  const syncInFlight = useRef<Promise<void> | null>(null);
+
+  const refreshPending = useCallback(async () => {
+    if (!collectorId) {
+      setPendingMutations([]);
+      setRejectedMutations([]);
+      return;
+    }
+    const [pending, rejected] = await Promise.all([
+      getPendingMutations(collectorId),
+      getRejectedMutations(collectorId),
+    ]);
+    setPendingMutations(pending);
+    setRejectedMutations(rejected);
+  }, [collectorId]);
+
+  const syncNow = useCallback(async () => {
+    // Mutations wait for a signed-in collector; after a 401 they replay once the collector signs back in
+    if (!isSignedIn || !collectorId) return;
+    // Join a replay that is already running rather than starting a second one
+    if (syncInFlight.current) return syncInFlight.current;
+
+    const run = (async () => {
+      try {
+        setSyncing(true);
+        const { synced, remaining } = await replayOutbox(collectorId, (mutation, result) => {
+          listeners.current.forEach(listener => listener(mutation, result));
+        });
+        if (synced > 0 || remaining === 0) {
+          setLastSyncedAt(new Date());
+        }
+      } catch (e) {
+        console.error('SyncProvider: Failed to replay outbox', e);
+      } finally {
+        await refreshPending();
+        setSyncing(false);
+        syncInFlight.current = null;
+      }
+    })();
+    syncInFlight.current = run;
+    return run;
+  }, [isSignedIn, collectorId, refreshPending]);
+
+  // Record the mutation durably first, then try to send it straight away.
+  // Resolves true when the mutation reached the server, false when it is waiting in the outbox.
+  const queueMutation = useCallback(async <T extends MutationType>(
+    type: T,
+    scheduleId: string,
+    payload: MutationPayloads[T]
+  ) => {
+    if (!collectorId) {
+      throw new Error('No collector is signed in');
+    }
+    const mutation = await enqueueMutation(collectorId, type, scheduleId, payload);
+    await refreshPending();
+    if (isOnline) {
+      // A replay already running may have read the outbox before this mutation was added,
+      // so let it finish and then run a pass that is sure to include it
+      if (syncInFlight.current) {
+        await syncInFlight.current;
+      }
+      await syncNow();
+    }
+    const pending = await getPendingMutations(collectorId);
+    return !pending.some(item => item.id === mutation.id);
+  }, [collectorId, isOnline, syncNow, refreshPending]);
+
+  // Send a rejected mutation again, e.g. once dispatch has fixed the schedule it was refused for
+  const retryRejected = useCallback(async (id: string) => {
+    await retryRejectedMutation(id);
+    await refreshPending();
+    if (isOnline) {
+      await syncNow();
+    }
+  }, [isOnline, syncNow, refreshPending]);
+
+  const discardRejected = useCallback(async (id: string) => {
+    await discardRejectedMutation(id);
+    await refreshPending();
+  }, [refreshPending]);
+
+  const subscribe = useCallback((listener: MutationSyncedListener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  // Load anything left over from a previous session, or from the collector who just signed in
+  useEffect(() => {
+    refreshPending();
+  }, [refreshPending]);
+
+  // Replay as soon as connectivity comes back
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener(state => {
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      setIsOnline(online);
+      if (online) {
+        syncNow();
+      }
+    });
+    return unsubscribe;
+  }, [syncNow]);
+
+  // Also retry when the app returns to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        syncNow();
+      }
+    });
+    return () => subscription.remove();
+  }, [syncNow]);
+
+  // Keep retrying periodically; a connection can be "up" without the server being reachable
+  useEffect(() => {
+    if (!isOnline || pendingMutations.length === 0) return;
+    const interval = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOnline, pendingMutations.length, syncNow]);
+
+  const contextValue: SyncContextData = {
+    isOnline,
+    syncing,
+    pendingMutations,
+    rejectedMutations,
+    lastSyncedAt,
+    queueMutation,
+    syncNow,
+    retryRejected,
+    discardRejected,
+    subscribe,
+  };
+
+  return (
+    <SyncContext.Provider value={contextValue}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
+
+export const useSync = () => {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import * as Location from 'expo-location';
+import { haversineDistance } from '../utils/geo';
+import { type TrackPoint } from '../services/api';
+
+// Skip breadcrumb points closer than this to the previous one, so GPS jitter at a stop doesn't pile up
+const MIN_BREADCRUMB_DISTANCE_M = 10;
+// Ignore fixes worse than this; they zig-zag the breadcrumb across the street
+const MAX_ACCURACY_M = 50;
+
+interface LocationTrackingState {
+  position: TrackPoint | null;
+  breadcrumb: TrackPoint[];
+  permissionDenied: boolean;
+}
+
+/**
+ * Watches the device position in the foreground while enabled
+ * @param enabled Whether tracking should run, e.g. while a collection is active
+ * @returns The latest position and the breadcrumb of points driven since tracking started
+ */
+export const useLocationTracking = (enabled: boolean): LocationTrackingState => {
+  const [position, setPosition] = useState<TrackPoint | null>(null);
+  const [breadcrumb, setBreadcrumb] = useState<TrackPoint[]>([]);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    const startWatching = async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted') {
+          setPermissionDenied(true);
+          return;
+        }
+        setPermissionDenied(false);
+
+        const watcher = await Location.watchPositionAsync(
+          { accuracy: Location.Accuracy.High, timeInterval: 5000, distanceInterval: 5 },
+          location => {
+            const point: TrackPoint = {
+              latitude: location.coords.latitude,
+              longitude: location.coords.longitude,
+              timestamp: new Date(location.timestamp).toISOString(),
+              speed: location.coords.speed,
+              accuracy: location.coords.accuracy,
+            };
+            setPosition(point);
+
+            if (point.accuracy && point.accuracy > MAX_ACCURACY_M) return;
+            setBreadcrumb(prev => {
+              const last = prev[prev.length - 1];
+              if (last && haversineDistance(last, point) < MIN_BREADCRUMB_DISTANCE_M) return prev;
+              return [...prev, point];
+            });
+          }
+        );
+
+        // The effect may have been cleaned up while we were waiting for permission
+        if (cancelled) {
+          watcher.remove();
+        } else {
+          subscription = watcher;
+        }
+      } catch (error) {
+        console.error('Error starting location tracking:', error);
+      }
+    };
+
+    startWatching();
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [enabled]);
+
+  return { position, breadcrumb, permissionDenied };
+};
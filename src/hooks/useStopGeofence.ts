@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import { haversineDistance } from '../utils/geo';
+import { type StopVisit, type TrackPoint } from '../services/api';
+
+// The truck has arrived once it is this close to a bin...
+const ARRIVAL_RADIUS_M = 30;
+// ...and has left once it is this far away. The gap stops GPS jitter from flapping between the two.
+const DEPARTURE_RADIUS_M = 50;
+// How long the truck must stay at a stop before we ask the collector to confirm it
+const DWELL_TIME_MS = 15000;
+
+interface GeofenceStop {
+  binId: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface StopGeofenceState {
+  visits: Record<string, StopVisit>;
+  dwellingBinId: string | null;
+}
+
+/**
+ * Detects arrival at, dwell at and departure from route stops using the live truck position
+ * @param position The latest truck position
+ * @param stops The stops to watch, typically the current and previous stop
+ * @param onDeparted Called once for each stop the truck leaves, with its completed visit
+ * @returns The visits recorded so far, keyed by bin ID, and the stop the truck is currently dwelling at
+ */
+export const useStopGeofence = (
+  position: TrackPoint | null,
+  stops: GeofenceStop[],
+  onDeparted?: (visit: StopVisit) => void
+): StopGeofenceState => {
+  const [visits, setVisits] = useState<Record<string, StopVisit>>({});
+  const [now, setNow] = useState(Date.now());
+  const visitsRef = useRef(visits);
+  const onDepartedRef = useRef(onDeparted);
+  onDepartedRef.current = onDeparted;
+
+  useEffect(() => {
+    if (!position) return;
+    const next = { ...visitsRef.current };
+    const departures: StopVisit[] = [];
+
+    stops.forEach(stop => {
+      const distance = haversineDistance(position, stop);
+      const visit = next[stop.binId];
+      if (!visit?.arrivedAt && distance <= ARRIVAL_RADIUS_M) {
+        next[stop.binId] = { binId: stop.binId, arrivedAt: position.timestamp };
+      } else if (visit?.arrivedAt && !visit.departedAt && distance >= DEPARTURE_RADIUS_M) {
+        next[stop.binId] = { ...visit, departedAt: position.timestamp };
+        departures.push(next[stop.binId]);
+      }
+    });
+
+    if (departures.length > 0 || Object.keys(next).length !== Object.keys(visitsRef.current).length) {
+      visitsRef.current = next;
+      setVisits(next);
+      departures.forEach(visit => onDepartedRef.current?.(visit));
+    }
+  }, [position, stops]);
+
+  // A parked truck may stop producing position updates, so re-check the dwell time on a timer
+  const hasOpenVisit = Object.values(visits).some(visit => visit.arrivedAt && !visit.departedAt);
+  useEffect(() => {
+    if (!hasOpenVisit) return;
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, [hasOpenVisit]);
+
+  const dwellingVisit = stops
+    .map(stop => visits[stop.binId])
+    .find(visit =>
+      visit?.arrivedAt &&
+      !visit.departedAt &&
+      Math.max(now, position ? new Date(position.timestamp).getTime() : 0) - new Date(visit.arrivedAt).getTime() >= DWELL_TIME_MS
+    );
+
+  return { visits, dwellingBinId: dwellingVisit?.binId ?? null };
+};
+
+export type { GeofenceStop };
@@ -7,28 +7,34 @@ import CollectorLoginScreen from '../screens/CollectorLoginScreen';
 import CollectorMainScreen from '../screens/CollectorMainScreen';
 import CollectorRouteScreen from '../screens/CollectorRouteScreen';
 import RouteSummaryScreen from '../screens/RouteSummaryScreen';
+import ApiSettingsScreen from '../screens/ApiSettingsScreen';
 import { CollectorAuthProvider } from '../context/CollectorAuthContext';
+import { SyncProvider } from '../context/SyncContext';
 import { RootStackParamList } from './types';
+import { navigationRef } from './navigationRef';
 
 const Stack = createStackNavigator<RootStackParamList>();
 
 const AppNavigator = () => {
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
       <CollectorAuthProvider>
-        <Stack.Navigator 
-          initialRouteName="Guideline"
-          screenOptions={{
-            headerShown: false,  // Hide headers for all screens
-          }}
-        >
-          <Stack.Screen name="Guideline" component={GuidelineScreen} />
-          <Stack.Screen name="Map" component={MapScreen} />
-          <Stack.Screen name="CollectorLogin" component={CollectorLoginScreen} />
-          <Stack.Screen name="CollectorMain" component={CollectorMainScreen} />
-          <Stack.Screen name="CollectorRoute" component={CollectorRouteScreen} />
-          <Stack.Screen name="RouteSummary" component={RouteSummaryScreen} />
-        </Stack.Navigator>
+        <SyncProvider>
+          <Stack.Navigator 
+            initialRouteName="Guideline"
+            screenOptions={{
+              headerShown: false,  // Hide headers for all screens
+            }}
+          >
+            <Stack.Screen name="Guideline" component={GuidelineScreen} />
+            <Stack.Screen name="Map" component={MapScreen} />
+            <Stack.Screen name="CollectorLogin" component={CollectorLoginScreen} />
+            <Stack.Screen name="ApiSettings" component={ApiSettingsScreen} />
+            <Stack.Screen name="CollectorMain" component={CollectorMainScreen} />
+            <Stack.Screen name="CollectorRoute" component={CollectorRouteScreen} />
+            <Stack.Screen name="RouteSummary" component={RouteSummaryScreen} />
+          </Stack.Navigator>
+        </SyncProvider>
       </CollectorAuthProvider>
     </NavigationContainer>
   );
@@ -0,0 +1,5 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { RootStackParamList } from './types';
+
+// Lets code outside of screens (e.g. auth handling) navigate
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
@@ -3,6 +3,7 @@ export type RootStackParamList = {
   Guideline: undefined;
   Map: undefined;
   CollectorLogin: undefined;
+  ApiSettings: undefined;
   CollectorMain: undefined;
   CollectorRoute: { scheduleId: string };
   RouteSummary: { scheduleId: string };
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import axios from 'axios';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { RootStackParamList } from '../navigation/types';
+import {
+  API_PROFILES,
+  getApiSettings,
+  getProfileBaseUrl,
+  resetApiSettings,
+  saveApiSettings,
+  type ApiProfile,
+} from '../services/apiClient';
+
+type ApiSettingsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ApiSettings'>;
+
+// Hidden screen for testers to point the app at their own backend (long-press the login title)
+const ApiSettingsScreen = () => {
+  const navigation = useNavigation<ApiSettingsScreenNavigationProp>();
+  const [profile, setProfile] = useState<ApiProfile>('dev');
+  const [customBaseUrl, setCustomBaseUrl] = useState('');
+  const [testing, setTesting] = useState(false);
+
+  useEffect(() => {
+    getApiSettings().then(settings => {
+      setProfile(settings.profile);
+      setCustomBaseUrl(settings.customBaseUrl ?? '');
+    });
+  }, []);
+
+  const effectiveBaseUrl = customBaseUrl.trim() || getProfileBaseUrl(profile);
+
+  // Any HTTP response means the server is reachable; only a network failure counts as unreachable
+  const handleTestConnection = async () => {
+    try {
+      setTesting(true);
+      // Plain axios, since the shared client always targets the saved base URL
+      await axios.get(effectiveBaseUrl, { timeout: 5000 });
+      Alert.alert('Connected', `Reached ${effectiveBaseUrl}`);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        Alert.alert('Connected', `Reached ${effectiveBaseUrl} (status ${error.response.status})`);
+      } else {
+        Alert.alert('Unreachable', `Could not reach ${effectiveBaseUrl}`);
+      }
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const trimmedUrl = customBaseUrl.trim();
+    if (trimmedUrl && !/^https?:\/\//.test(trimmedUrl)) {
+      Alert.alert('Error', 'The custom URL must start with http:// or https://');
+      return;
+    }
+    await saveApiSettings({ profile, customBaseUrl: trimmedUrl || undefined });
+    navigation.goBack();
+  };
+
+  const handleReset = async () => {
+    await resetApiSettings();
+    const settings = await getApiSettings();
+    setProfile(settings.profile);
+    setCustomBaseUrl('');
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollView}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <MaterialCommunityIcons name="arrow-left" size={24} color="#12805c" />
+          </TouchableOpacity>
+          <Text style={styles.title}>API Settings</Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>Environment</Text>
+        {API_PROFILES.map(item => (
+          <TouchableOpacity
+            key={item}
+            style={[styles.profileOption, profile === item && styles.profileOptionSelected]}
+            onPress={() => setProfile(item)}
+          >
+            <MaterialCommunityIcons
+              name={profile === item ? 'radiobox-marked' : 'radiobox-blank'}
+              size={20}
+              color="#12805c"
+            />
+            <View style={styles.profileDetails}>
+              <Text style={styles.profileName}>{item}</Text>
+              <Text style={styles.profileUrl}>{getProfileBaseUrl(item)}</Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+
+        <Text style={styles.sectionTitle}>Custom Base URL</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g. http://192.168.1.20:5000/api"
+          placeholderTextColor="#999"
+          value={customBaseUrl}
+          onChangeText={setCustomBaseUrl}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        <Text style={styles.hintText}>Overrides the selected environment when set.</Text>
+
+        <Text style={styles.effectiveUrl}>Requests will go to: {effectiveBaseUrl}</Text>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleTestConnection} disabled={testing}>
+          {testing ? (
+            <ActivityIndicator size="small" color="#12805c" />
+          ) : (
+            <Text style={styles.secondaryButtonText}>Test Connection</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+          <Text style={styles.saveButtonText}>Save</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+          <Text style={styles.resetButtonText}>Reset to Defaults</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  scrollView: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 24,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#12805c',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  profileOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#eee',
+    padding: 12,
+    marginBottom: 8,
+  },
+  profileOptionSelected: {
+    borderColor: '#12805c',
+  },
+  profileDetails: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  profileName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+    textTransform: 'capitalize',
+  },
+  profileUrl: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+  effectiveUrl: {
+    fontSize: 14,
+    color: '#333',
+    marginVertical: 20,
+  },
+  secondaryButton: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#12805c',
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: '#12805c',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButton: {
+    height: 50,
+    backgroundColor: '#12805c',
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  resetButton: {
+    marginTop: 16,
+    alignItems: 'center',
+    padding: 10,
+  },
+  resetButtonText: {
+    fontSize: 14,
+    color: '#e57373',
+    fontWeight: '500',
+  },
+});
+
+export default ApiSettingsScreen;
@@ -62,7 +62,10 @@ const CollectorLoginScreen = () => {
     >
       <ScrollView contentContainerStyle={styles.scrollView}>
         <View style={styles.header}>
-          <Text style={styles.title}>Collector Login</Text>
+          {/* Long-press the title to open the hidden API settings */}
+          <Text style={styles.title} onLongPress={() => navigation.navigate('ApiSettings')}>
+            Collector Login
+          </Text>
           <Text style={styles.subtitle}>Sign in to access your collection route</Text>
         </View>
 
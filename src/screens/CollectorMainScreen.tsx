@@ -13,9 +13,15 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useCollectorAuth } from '../context/CollectorAuthContext';
+import { useSync } from '../context/SyncContext';
+import RejectedChangesDialog from '../components/RejectedChangesDialog';
 import { MaterialCommunityIcons, FontAwesome5 } from '@expo/vector-icons';
 import { RootStackParamList } from '../navigation/types';
-import { getCollectorArea, getCollectorSchedules, type AreaData, type Schedule } from '../services/api';
+import { getCollectorArea, getCollectorSchedules, getScheduleById, type AreaData, type Schedule } from '../services/api';
+import { isSessionExpiredError } from '../services/apiClient';
+import { cacheKeys, fetchWithCache, type CacheStatus } from '../services/cache';
+import { formatLastSynced } from '../utils/dateUtils';
+import { formatWasteType, getWasteTypeColor, normalizeWasteType } from '../utils/wasteTypes';
 import { format, isToday, isTomorrow, addDays } from 'date-fns';
 
 // Add custom functions for date checks that aren't available in date-fns v4
@@ -40,33 +46,43 @@ const CollectorMainScreen = () => {
   const [areaLoading, setAreaLoading] = useState(true);
   const [schedulesLoading, setSchedulesLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const { token, signOut } = useCollectorAuth();
+  const { isSignedIn, collector, signOut } = useCollectorAuth();
   const navigation = useNavigation<CollectorMainScreenNavigationProp>();
+  const { rejectedMutations, retryRejected, discardRejected } = useSync();
+  const [rejectedDialogVisible, setRejectedDialogVisible] = useState(false);
   
   // State for area and schedules
   const [area, setArea] = useState<AreaData | null>(null);
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [selectedSchedule, setSelectedSchedule] = useState<Schedule | null>(null);
+  const [areaSync, setAreaSync] = useState<CacheStatus | null>(null);
+  const [schedulesSync, setSchedulesSync] = useState<CacheStatus | null>(null);
+  // Show only runs for one waste stream; null shows every schedule
+  const [wasteTypeFilter, setWasteTypeFilter] = useState<string | null>(null);
 
   // Function to load area data
   const loadAreaData = useCallback(async () => {
-    if (!token) return;
+    if (!isSignedIn) return;
     
     try {
       setAreaLoading(true);
-      const areaData = await getCollectorArea(token);
+      const { data: areaData, ...status } = await fetchWithCache(cacheKeys.area, () => getCollectorArea());
       setArea(areaData);
+      setAreaSync(status);
     } catch (error) {
       console.error('Error loading area data:', error);
-      Alert.alert('Error', 'Failed to load area information. Please try again.');
+      // An expired session is already handled by sending the collector back to login
+      if (!isSessionExpiredError(error)) {
+        Alert.alert('Error', 'Failed to load area information. Please try again.');
+      }
     } finally {
       setAreaLoading(false);
     }
-  }, [token]);
+  }, [isSignedIn]);
 
   // Function to load schedules
   const loadSchedules = useCallback(async () => {
-    if (!token) return;
+    if (!isSignedIn) return;
     
     try {
       setSchedulesLoading(true);
@@ -78,20 +94,35 @@ const CollectorMainScreen = () => {
       const fromDate = today.toISOString().split('T')[0];
       const toDate = twoWeeksLater.toISOString().split('T')[0];
       
-      const response = await getCollectorSchedules(token, {
-        fromDate,
-        toDate,
-        limit: 50,
-      });
+      const { data: response, ...status } = await fetchWithCache(cacheKeys.schedules, () =>
+        getCollectorSchedules({
+          fromDate,
+          toDate,
+          limit: 50,
+        })
+      );
       
       setSchedules(response.data);
+      setSchedulesSync(status);
+
+      // Cache today's full schedules in the background so their routes can be opened without a connection
+      if (!status.fromCache) {
+        response.data
+          .filter(schedule => isToday(parseISO(schedule.date)) && schedule.status !== 'completed')
+          .forEach(schedule => {
+            fetchWithCache(cacheKeys.schedule(schedule._id), () => getScheduleById(schedule._id))
+              .catch(error => console.error(`Error caching schedule ${schedule._id}:`, error));
+          });
+      }
     } catch (error) {
       console.error('Error loading schedules:', error);
-      Alert.alert('Error', 'Failed to load schedules. Please try again.');
+      if (!isSessionExpiredError(error)) {
+        Alert.alert('Error', 'Failed to load schedules. Please try again.');
+      }
     } finally {
       setSchedulesLoading(false);
     }
-  }, [token]);
+  }, [isSignedIn]);
 
   // Load initial data
   useEffect(() => {
@@ -126,15 +157,28 @@ const CollectorMainScreen = () => {
     setSelectedSchedule(schedule);
     
     // Check the status of the schedule
-    if (schedule.status === 'completed') {
-      // If completed, navigate to the route summary screen
+    if (schedule.status === 'completed' || schedule.status === 'cancelled') {
+      // If finished or ended early, navigate to the route summary screen
       navigation.navigate('RouteSummary', { scheduleId: schedule._id });
     } else {
-      // For scheduled or in-progress, navigate to the route screen
+      // For scheduled, in-progress or paused, navigate to the route screen
       navigation.navigate('CollectorRoute', { scheduleId: schedule._id });
     }
   };
 
+  // Waste streams that have a dedicated run among the loaded schedules
+  const scheduleWasteTypes = useMemo(() => {
+    const types = schedules
+      .filter(schedule => schedule.wasteType)
+      .map(schedule => normalizeWasteType(schedule.wasteType));
+    return Array.from(new Set(types));
+  }, [schedules]);
+
+  const filteredSchedules = useMemo(() => {
+    if (!wasteTypeFilter) return schedules;
+    return schedules.filter(schedule => normalizeWasteType(schedule.wasteType) === wasteTypeFilter);
+  }, [schedules, wasteTypeFilter]);
+
   // Group schedules by date category
   const groupedSchedules = useMemo(() => {
     const result: SchedulesByDate[] = [
@@ -144,12 +188,12 @@ const CollectorMainScreen = () => {
       { title: 'Later', data: [] }
     ];
     
-    if (!schedules.length) return result;
+    if (!filteredSchedules.length) return result;
     
     const today = new Date();
     const thisWeekEnd = addDays(today, 6); // 7 days including today
     
-    schedules.forEach(schedule => {
+    filteredSchedules.forEach(schedule => {
       const scheduleDate = parseISO(schedule.date);
       
       if (isToday(scheduleDate)) {
@@ -165,7 +209,7 @@ const CollectorMainScreen = () => {
     
     // Return only sections that have data
     return result.filter(section => section.data.length > 0);
-  }, [schedules]);
+  }, [filteredSchedules]);
 
   // Get the bin count by waste type
   const binsByWasteType = useMemo(() => {
@@ -209,7 +253,15 @@ const CollectorMainScreen = () => {
       
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.title}>Collection Dashboard</Text>
+        <View>
+          {collector && (
+            <Text style={styles.greeting}>{getGreeting()}, {collector.firstName}</Text>
+          )}
+          <Text style={styles.title}>Collection Dashboard</Text>
+          {collector?.vehicle?.registrationNumber && (
+            <Text style={styles.vehicleText}>Vehicle: {collector.vehicle.registrationNumber}</Text>
+          )}
+        </View>
         <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
           <MaterialCommunityIcons name="logout" size={24} color="#12805c" />
         </TouchableOpacity>
@@ -221,6 +273,16 @@ const CollectorMainScreen = () => {
         }
         contentContainerStyle={styles.scrollContent}
       >
+        {/* Changes from any route that the server refused */}
+        {rejectedMutations.length > 0 && (
+          <TouchableOpacity style={styles.rejectedBanner} onPress={() => setRejectedDialogVisible(true)}>
+            <MaterialCommunityIcons name="cloud-alert" size={20} color="#B91C1C" />
+            <Text style={styles.rejectedText}>
+              {`${rejectedMutations.length} change${rejectedMutations.length === 1 ? '' : 's'} not accepted by the server - tap to review`}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Area Overview Card */}
         <View style={styles.areaCard}>
           {areaLoading ? (
@@ -237,6 +299,11 @@ const CollectorMainScreen = () => {
                   <Text style={styles.binCountLabel}>Bins</Text>
                 </View>
               </View>
+              {areaSync && (
+                <Text style={[styles.syncedText, areaSync.stale && styles.syncedTextStale]}>
+                  {formatLastSynced(areaSync.syncedAt)}{areaSync.fromCache ? ' (offline)' : ''}
+                </Text>
+              )}
               
               <View style={styles.divider} />
               
@@ -274,9 +341,31 @@ const CollectorMainScreen = () => {
             </TouchableOpacity>
           </View>
 
+          {schedulesSync && !schedulesLoading && (
+            <Text style={[styles.syncedText, schedulesSync.stale && styles.syncedTextStale]}>
+              {formatLastSynced(schedulesSync.syncedAt)}{schedulesSync.fromCache ? ' (offline)' : ''}
+            </Text>
+          )}
+
+          {scheduleWasteTypes.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterChips}>
+              {[null, ...scheduleWasteTypes].map(type => (
+                <TouchableOpacity
+                  key={type ?? 'all'}
+                  style={[styles.filterChip, wasteTypeFilter === type && styles.filterChipSelected]}
+                  onPress={() => setWasteTypeFilter(type)}
+                >
+                  <Text style={[styles.filterChipText, wasteTypeFilter === type && styles.filterChipTextSelected]}>
+                    {type ? formatWasteType(type) : 'All'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
           {schedulesLoading ? (
             <ActivityIndicator size="small" color="#12805c" style={styles.schedulesLoader} />
-          ) : schedules.length > 0 ? (
+          ) : filteredSchedules.length > 0 ? (
             <>
               {groupedSchedules.map((section, sectionIndex) => (
                 <View key={section.title} style={styles.scheduleSection}>
@@ -298,6 +387,11 @@ const CollectorMainScreen = () => {
                         </View>
                         <View style={styles.scheduleDetails}>
                           <Text style={styles.scheduleName}>{schedule.name}</Text>
+                          {schedule.wasteType && (
+                            <View style={[styles.scheduleWasteTypeTag, { backgroundColor: getWasteTypeColor(schedule.wasteType) }]}>
+                              <Text style={styles.wasteTypeText}>{formatWasteType(schedule.wasteType)} only</Text>
+                            </View>
+                          )}
                           <Text style={styles.scheduleTime}>
                             {schedule.startTime ? format(parseISO(schedule.startTime), 'h:mm a') : 'No start time'} 
                             {schedule.endTime ? ` - ${format(parseISO(schedule.endTime), 'h:mm a')}` : ''}
@@ -328,7 +422,7 @@ const CollectorMainScreen = () => {
                         >
                           <Text style={styles.actionButtonText}>
                             {schedule.status === 'scheduled' ? 'View Route' : 
-                             schedule.status === 'in-progress' ? 'Continue' : 
+                             schedule.status === 'in-progress' || schedule.status === 'paused' ? 'Continue' : 
                              'Details'}
                           </Text>
                           <MaterialCommunityIcons name="chevron-right" size={18} color="#12805c" />
@@ -350,28 +444,24 @@ const CollectorMainScreen = () => {
           )}
         </View>
       </ScrollView>
+
+      <RejectedChangesDialog
+        visible={rejectedDialogVisible}
+        mutations={rejectedMutations}
+        onRetry={retryRejected}
+        onDiscard={discardRejected}
+        onClose={() => setRejectedDialogVisible(false)}
+      />
     </View>
   );
 };
 
-// Helper function for getting waste type color
-const getWasteTypeColor = (type: string): string => {
-  type = type.toLowerCase();
-  switch (type) {
-    case 'plastic':
-      return '#E1F5FE';
-    case 'paper':
-      return '#E8F5E9';
-    case 'glass':
-      return '#F3E5F5';
-    case 'metal':
-      return '#EEEEEE';
-    case 'organic':
-      return '#F1F8E9';
-    case 'general':
-    default:
-      return '#ECEFF1';
-  }
+// Helper function for a time-of-day greeting
+const getGreeting = (): string => {
+  const hour = new Date().getHours();
+  if (hour < 12) return 'Good morning';
+  if (hour < 17) return 'Good afternoon';
+  return 'Good evening';
 };
 
 // Helper function for status styles
@@ -381,6 +471,8 @@ const getStatusStyle = (status: string) => {
       return styles.statusScheduled;
     case 'in-progress':
       return styles.statusInProgress;
+    case 'paused':
+      return styles.statusPaused;
     case 'completed':
       return styles.statusCompleted;
     case 'cancelled':
@@ -420,15 +512,39 @@ const styles = StyleSheet.create({
     borderBottomColor: '#eee',
     elevation: 2,
   },
+  greeting: {
+    fontSize: 14,
+    color: '#12805c',
+    marginBottom: 2,
+  },
   title: {
     fontSize: 20,
     fontWeight: 'bold',
     color: '#333',
   },
+  vehicleText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
   signOutButton: {
     padding: 8,
   },
   // Area card styles
+  rejectedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEE2E2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  rejectedText: {
+    flex: 1,
+    color: '#B91C1C',
+    fontSize: 14,
+    marginLeft: 8,
+  },
   areaCard: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -501,6 +617,14 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#333',
   },
+  syncedText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 8,
+  },
+  syncedTextStale: {
+    color: '#B45309',
+  },
   noDataText: {
     textAlign: 'center',
     color: '#999',
@@ -531,6 +655,35 @@ const styles = StyleSheet.create({
     color: '#12805c',
     marginLeft: 4,
   },
+  filterChips: {
+    marginBottom: 12,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#12805c',
+    marginRight: 8,
+  },
+  filterChipSelected: {
+    backgroundColor: '#12805c',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#12805c',
+    fontWeight: '600',
+  },
+  filterChipTextSelected: {
+    color: '#fff',
+  },
+  scheduleWasteTypeTag: {
+    alignSelf: 'flex-start',
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    marginBottom: 2,
+  },
   schedulesLoader: {
     marginVertical: 20,
   },
@@ -602,6 +755,9 @@ const styles = StyleSheet.create({
   statusInProgress: {
     backgroundColor: '#FFF9C4',
   },
+  statusPaused: {
+    backgroundColor: '#E0E7FF',
+  },
   statusCompleted: {
     backgroundColor: '#E8F5E9',
   },
@@ -12,15 +12,58 @@ import {
   StatusBar,
   FlatList,
   Image,
+  TextInput,
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import MapView, { Marker, Polyline, PROVIDER_GOOGLE } from 'react-native-maps';
 import { MaterialCommunityIcons, FontAwesome5 } from '@expo/vector-icons';
 import { format } from 'date-fns';
+import Constants from 'expo-constants';
 import { useCollectorAuth } from '../context/CollectorAuthContext';
+import { useSync } from '../context/SyncContext';
 import { RootStackParamList } from '../navigation/types';
-import { getScheduleById, updateScheduleStatus, updateScheduleBinCollected, type Schedule, type Bin } from '../services/api';
+import {
+  getScheduleById,
+  type AbandonReason,
+  type Schedule,
+  type Bin,
+  type CollectedWeight,
+  type DumpTrip,
+  type PauseReason,
+  type ProofPhotos,
+  type ResequenceReason,
+  type ShiftBreak,
+  type SkipReason,
+  type SkippedBin,
+} from '../services/api';
+import { isSessionExpiredError } from '../services/apiClient';
+import { cacheKeys, fetchWithCache, updateCachedData, type CacheStatus } from '../services/cache';
+import {
+  clearRouteSession,
+  getQueuedStatus,
+  loadRouteSession,
+  restoreRouteSession,
+  saveRouteSession,
+} from '../services/routeSession';
+import { getPendingMutations } from '../services/syncQueue';
+import { formatLastSynced } from '../utils/dateUtils';
+import { useLocationTracking } from '../hooks/useLocationTracking';
+import { useStopGeofence } from '../hooks/useStopGeofence';
+import { capturePhoto, persistImage } from '../utils/imageUtils';
+import { getRouteCost, optimizeStopOrder } from '../utils/routeOptimizer';
+import { formatDistance, getGuidance } from '../utils/guidance';
+import { getRouteProgress } from '../utils/routeProgress';
+import { estimateBinLoad, getCollectedWeight, getTruckCapacity, getTruckLoad, NEAR_FULL_FRACTION } from '../utils/truckLoad';
+import { getBreakMinutes } from '../utils/shiftTime';
+import { formatWasteType, getWasteTypeColor, groupByWasteType, isBinForRun, normalizeWasteType } from '../utils/wasteTypes';
+import { fromGeoJson, getBoundingBox, projectOntoPolyline, slicePolyline } from '../utils/geo';
+import SkipStopDialog from '../components/SkipStopDialog';
+import ReorderStopsDialog from '../components/ReorderStopsDialog';
+import GuidanceBanner from '../components/GuidanceBanner';
+import PauseRouteDialog, { PAUSE_REASONS } from '../components/PauseRouteDialog';
+import AbandonRouteDialog from '../components/AbandonRouteDialog';
+import RejectedChangesDialog from '../components/RejectedChangesDialog';
 
 type CollectorRouteNavigationProp = StackNavigationProp<RootStackParamList, 'CollectorRoute'>;
 type CollectorRouteRouteProp = RouteProp<RootStackParamList, 'CollectorRoute'>;
@@ -29,12 +72,29 @@ const { width, height } = Dimensions.get('window');
 const ASPECT_RATIO = width / height;
 const LATITUDE_DELTA = 0.02;
 const LONGITUDE_DELTA = LATITUDE_DELTA * ASPECT_RATIO;
+// Upload the driven path in batches of this many points
+const TRACK_UPLOAD_BATCH_SIZE = 20;
+// Whether an "after" photo is required before a bin can be marked collected (`expo.extra.collection` in app.json)
+const REQUIRE_PROOF_PHOTO = Constants.expoConfig?.extra?.collection?.requireProofPhoto === true;
+// Only offer a re-optimized order when it is at least this much shorter
+const MIN_OPTIMIZATION_SAVING_M = 100;
 
 const CollectorRouteScreen = () => {
   const navigation = useNavigation<CollectorRouteNavigationProp>();
   const route = useRoute<CollectorRouteRouteProp>();
   const { scheduleId } = route.params;
-  const { token } = useCollectorAuth();
+  const { isSignedIn, collector, collectorId } = useCollectorAuth();
+  const {
+    queueMutation,
+    pendingMutations,
+    rejectedMutations,
+    isOnline,
+    syncing,
+    syncNow,
+    retryRejected,
+    discardRejected,
+    subscribe,
+  } = useSync();
   const mapRef = useRef<MapView>(null);
   
   const [loading, setLoading] = useState(true);
@@ -42,31 +102,118 @@ const CollectorRouteScreen = () => {
   const [selectedBin, setSelectedBin] = useState<(Bin & { index: number }) | null>(null);
   const [currentStopIndex, setCurrentStopIndex] = useState<number>(0);
   const [completedStops, setCompletedStops] = useState<string[]>([]);
+  const [skippedStops, setSkippedStops] = useState<SkippedBin[]>([]);
+  const [deferredStops, setDeferredStops] = useState<string[]>([]);
+  const [skipDialogVisible, setSkipDialogVisible] = useState<boolean>(false);
+  const [stopPhotos, setStopPhotos] = useState<Record<string, ProofPhotos>>({});
+  const [binWeights, setBinWeights] = useState<Record<string, CollectedWeight>>({});
+  const [binCollectedAt, setBinCollectedAt] = useState<Record<string, string>>({});
+  // Weights typed in at each stop, kept as text until the bin is marked collected
+  const [weightInputs, setWeightInputs] = useState<Record<string, string>>({});
+  const [reorderVisible, setReorderVisible] = useState<boolean>(false);
+  const [dumpTrips, setDumpTrips] = useState<DumpTrip[]>([]);
+  const [dumpTripStartedAt, setDumpTripStartedAt] = useState<string | null>(null);
+  const [breaks, setBreaks] = useState<ShiftBreak[]>([]);
+  const [pauseDialogVisible, setPauseDialogVisible] = useState<boolean>(false);
+  const [abandonDialogVisible, setAbandonDialogVisible] = useState<boolean>(false);
+  const [rejectedDialogVisible, setRejectedDialogVisible] = useState<boolean>(false);
   const [allBinsCollected, setAllBinsCollected] = useState<boolean>(false);
   const [activeCollection, setActiveCollection] = useState<boolean>(false);
+  const [finishing, setFinishing] = useState<boolean>(false);
+  const [scheduleSync, setScheduleSync] = useState<CacheStatus | null>(null);
+  const [followMode, setFollowMode] = useState<boolean>(false);
+  // Narrows the stop list and map to one waste stream before the run starts; null shows every bin
+  const [wasteTypeFilter, setWasteTypeFilter] = useState<string | null>(null);
+  const uploadedTrackCount = useRef(0);
+  // Stop to bring into view once a resumed route has rendered; -1 means the end point
+  const pendingFocusIndex = useRef<number | null>(null);
+
+  // Track the truck while the collection is running, but not while it is paused
+  const paused = schedule?.status === 'paused';
+  const { position, breadcrumb, permissionDenied } = useLocationTracking(activeCollection && !paused);
   
   // Get schedule details
   useEffect(() => {
     const loadScheduleDetails = async () => {
-      if (!token) return;
+      if (!isSignedIn) return;
       
       try {
         setLoading(true);
-        const scheduleData = await getScheduleById(scheduleId, token);
+        // Falls back to the cached copy so today's route can still be run without a connection
+        const { data: scheduleData, ...status } = await fetchWithCache(cacheKeys.schedule(scheduleId), () =>
+          getScheduleById(scheduleId)
+        );
+        setScheduleSync(status);
         console.log('Schedule data loaded. Status:', scheduleData.status);
         console.log('Bin sequence type:', typeof scheduleData.binSequence[0]);
         
-        setSchedule(scheduleData);
+        // A run for a single stream starts out showing only that stream's bins
+        setWasteTypeFilter(scheduleData.wasteType ? normalizeWasteType(scheduleData.wasteType) : null);
+        
+        // Status changes still in the outbox are newer than the server's copy, e.g. a route started offline
+        // whose start hasn't replayed yet. Progress saved on the device also means the route was started.
+        const [session, pending] = await Promise.all([
+          loadRouteSession(scheduleId),
+          collectorId ? getPendingMutations(collectorId) : Promise.resolve([]),
+        ]);
+        const queuedStatus = getQueuedStatus(pending, scheduleId);
+        const localStatus = queuedStatus
+          ?? (scheduleData.status === 'scheduled' && session ? 'in-progress' : scheduleData.status);
+        
+        // A running or paused route picks up where the collector left off, including progress not yet synced
+        if (localStatus === 'in-progress' || localStatus === 'paused') {
+          console.log('Resuming in-progress collection');
+          const restored = restoreRouteSession({ ...scheduleData, status: localStatus }, session);
+          setSchedule({
+            ...scheduleData,
+            status: restored.status,
+            binSequence: restored.binSequence,
+            // A start that hasn't synced yet is only known on the device
+            actualStartTime: scheduleData.actualStartTime
+              ?? pending.find(mutation => mutation.scheduleId === scheduleId && mutation.type === 'schedule-status')?.createdAt,
+          });
+          setBreaks(restored.breaks);
+          setCompletedStops(restored.completedStops);
+          setSkippedStops(restored.skippedStops);
+          setDeferredStops(restored.deferredStops);
+          setBinWeights(restored.binWeights);
+          setBinCollectedAt(restored.binCollectedAt);
+          setStopPhotos(restored.stopPhotos);
+          setDumpTrips(restored.dumpTrips);
+          setDumpTripStartedAt(restored.dumpTripStartedAt);
+          if (restored.currentStopIndex === -1) {
+            setAllBinsCollected(true);
+          } else {
+            const currentBin = restored.binSequence[restored.currentStopIndex];
+            setCurrentStopIndex(restored.currentStopIndex);
+            if (typeof currentBin !== 'string') {
+              setSelectedBin({ ...currentBin, index: restored.currentStopIndex });
+            }
+          }
+          pendingFocusIndex.current = restored.currentStopIndex;
+          setActiveCollection(true);
+          return;
+        }
+        
+        // Nothing to resume for a route that isn't running
+        clearRouteSession(scheduleId);
+        setSchedule({ ...scheduleData, status: localStatus });
         
         // Initialize completed stops if available from the server
         if (scheduleData.completedBins && Array.isArray(scheduleData.completedBins)) {
           setCompletedStops(scheduleData.completedBins);
         }
-        
-        // Check if the schedule is already in progress and set the active collection state
-        if (scheduleData.status === 'in-progress') {
-          console.log('Setting active collection state to true');
-          setActiveCollection(true);
+        if (Array.isArray(scheduleData.skippedBins)) {
+          setSkippedStops(scheduleData.skippedBins);
+        }
+        if (Array.isArray(scheduleData.dumpTrips)) {
+          setDumpTrips(scheduleData.dumpTrips);
+        }
+        if (scheduleData.binWeights) {
+          setBinWeights(scheduleData.binWeights);
+        }
+        if (scheduleData.binCollectedAt) {
+          setBinCollectedAt(scheduleData.binCollectedAt);
         }
         
         // Center map on the route
@@ -77,18 +224,183 @@ const CollectorRouteScreen = () => {
         }
       } catch (error) {
         console.error('Error loading schedule details:', error);
-        Alert.alert('Error', 'Failed to load schedule information. Please try again.');
+        // An expired session is already handled by sending the collector back to login
+        if (!isSessionExpiredError(error)) {
+          Alert.alert('Error', 'Failed to load schedule information. Please try again.');
+        }
       } finally {
         setLoading(false);
       }
     };
     
     loadScheduleDetails();
-  }, [token, scheduleId]);
+  }, [isSignedIn, scheduleId, collectorId]);
+
+  // Reconcile with the server's completed and skipped bins whenever a queued outcome for this schedule syncs,
+  // keeping any local outcomes it hasn't seen yet
+  useEffect(() => {
+    return subscribe((mutation, result) => {
+      if (mutation.scheduleId !== scheduleId || !result) return;
+      if (mutation.type === 'collect-bin' && Array.isArray(result.completedBins)) {
+        const serverBins = result.completedBins;
+        setCompletedStops(prev => [...serverBins, ...prev.filter(id => !serverBins.includes(id))]);
+      }
+      if (mutation.type === 'skip-bin' && Array.isArray(result.skippedBins)) {
+        const serverSkips = result.skippedBins;
+        setSkippedStops(prev => [
+          ...serverSkips,
+          ...prev.filter(skip => !serverSkips.some(serverSkip => serverSkip.binId === skip.binId)),
+        ]);
+      }
+    });
+  }, [subscribe, scheduleId]);
+
+  // Bring the resumed stop into view once the restored route is on screen
+  useEffect(() => {
+    if (!schedule || pendingFocusIndex.current === null) return;
+    const stopIndex = pendingFocusIndex.current;
+    pendingFocusIndex.current = null;
+    setTimeout(() => {
+      if (stopIndex === -1) {
+        focusEndSegment(schedule.binSequence.length - 1);
+      } else {
+        focusMapOnActiveSegment(stopIndex);
+      }
+    }, 500);
+  }, [schedule]);
+
+  // Save progress on the device as it happens, so a crash or restart resumes at the same stop
+  useEffect(() => {
+    if (!schedule || !activeCollection) return;
+    const currentBin = allBinsCollected ? undefined : schedule.binSequence[currentStopIndex];
+    saveRouteSession({
+      scheduleId: schedule._id,
+      binOrder: (schedule.binSequence as (string | Bin)[]).map(bin => (typeof bin === 'string' ? bin : bin._id)),
+      currentBinId: currentBin ? (typeof currentBin === 'string' ? currentBin : currentBin._id) : null,
+      completedStops,
+      skippedStops,
+      deferredStops,
+      binWeights,
+      binCollectedAt,
+      stopPhotos,
+      dumpTrips,
+      dumpTripStartedAt,
+      breaks,
+      savedAt: new Date().toISOString(),
+    });
+  }, [
+    schedule,
+    activeCollection,
+    allBinsCollected,
+    currentStopIndex,
+    completedStops,
+    skippedStops,
+    deferredStops,
+    binWeights,
+    binCollectedAt,
+    stopPhotos,
+    dumpTrips,
+    dumpTripStartedAt,
+    breaks,
+  ]);
+
+  // Keep the cached copy in step with local progress so a restart while offline doesn't lose it
+  useEffect(() => {
+    if (!schedule) return;
+    updateCachedData(cacheKeys.schedule(schedule._id), {
+      ...schedule,
+      completedBins: completedStops,
+      skippedBins: skippedStops,
+      dumpTrips,
+      binWeights,
+      binCollectedAt,
+      breaks,
+    });
+  }, [schedule, completedStops, skippedStops, dumpTrips, binWeights, binCollectedAt, breaks]);
+
+  // Watch the current stop for arrival and the previous one for departure
+  const geofenceStops = useMemo(() => {
+    if (!schedule || !activeCollection) return [];
+    return [currentStopIndex - 1, currentStopIndex]
+      .map(index => schedule.binSequence[index])
+      .filter((bin): bin is Bin => !!bin && typeof bin !== 'string' && !!bin.location?.coordinates)
+      .map(bin => ({
+        binId: bin._id,
+        latitude: bin.location.coordinates[1],
+        longitude: bin.location.coordinates[0],
+      }));
+  }, [schedule, activeCollection, currentStopIndex]);
+
+  const { visits: stopVisits, dwellingBinId } = useStopGeofence(position, geofenceStops, visit => {
+    if (!schedule) return;
+    queueMutation('stop-visit', schedule._id, visit).catch(error => {
+      console.error(`Error queueing visit to bin ${visit.binId}:`, error);
+    });
+  });
+  const [dismissedArrivalBinId, setDismissedArrivalBinId] = useState<string | null>(null);
+
+  // Keep the truck centred while following
+  useEffect(() => {
+    if (!followMode || !position) return;
+    mapRef.current?.animateCamera(
+      { center: { latitude: position.latitude, longitude: position.longitude } },
+      { duration: 500 }
+    );
+  }, [followMode, position]);
+
+  // Queue the part of the driven path that hasn't been sent yet
+  const uploadTrack = async () => {
+    if (!schedule) return;
+    const points = breadcrumb.slice(uploadedTrackCount.current);
+    if (points.length === 0) return;
+    uploadedTrackCount.current = breadcrumb.length;
+    try {
+      await queueMutation('track', schedule._id, { points });
+    } catch (error) {
+      console.error('Error queueing track points:', error);
+      uploadedTrackCount.current -= points.length;
+    }
+  };
+
+  useEffect(() => {
+    if (breadcrumb.length - uploadedTrackCount.current >= TRACK_UPLOAD_BATCH_SIZE) {
+      uploadTrack();
+    }
+  }, [breadcrumb]);
+
+  const toggleFollowMode = () => {
+    if (!followMode && !position) {
+      Alert.alert(
+        'Location Unavailable',
+        permissionDenied
+          ? 'Allow location access to follow the truck on the map.'
+          : 'Waiting for a GPS fix. Try again in a moment.'
+      );
+      return;
+    }
+    setFollowMode(!followMode);
+  };
+
+  // Changes for this schedule still waiting in the outbox
+  const pendingSyncCount = pendingMutations.filter(mutation => mutation.scheduleId === scheduleId).length;
+  // Changes for this schedule the server refused, waiting for the collector to retry or discard them
+  const rejectedForSchedule = rejectedMutations.filter(mutation => mutation.scheduleId === scheduleId);
+
+  // A schedule assigned to someone else can be viewed but not run
+  const assignedCollector = schedule?.collectorId;
+  const isAssignedToAnotherCollector =
+    !!collectorId && !!assignedCollector?._id && assignedCollector._id !== collectorId;
 
   // Start collection process
   const handleStartCollection = async () => {
-    if (!schedule || !token) return;
+    if (!schedule || !isSignedIn) return;
+    if (isAssignedToAnotherCollector) {
+      Alert.alert(
+        'Not Your Route',
+        `This collection is assigned to ${assignedCollector?.firstName} ${assignedCollector?.lastName}.`
+      );
+      return;
+    }
     // Only allow starting if the status is 'scheduled'
     if (schedule.status !== 'scheduled') {
       Alert.alert(
@@ -100,21 +412,38 @@ const CollectorRouteScreen = () => {
     // Immediately switch to in-progress UI and reset stop state
     setActiveCollection(true);
     setCompletedStops([]);
+    setSkippedStops([]);
+    setDeferredStops([]);
+    setDumpTrips([]);
+    setDumpTripStartedAt(null);
+    setBinWeights({});
+    setBinCollectedAt({});
+    setBreaks([]);
     setAllBinsCollected(false);
     setCurrentStopIndex(0);
     setSelectedBin(null);
+    // A fresh run starts without anything left over from an earlier one
+    await clearRouteSession(schedule._id);
     try {
-      // Update the server status
-      await updateScheduleStatus(schedule._id, 'in-progress', token);
-      // Re-fetch the schedule with populated bins so the in-progress UI loads correctly
-      const refreshed = await getScheduleById(schedule._id, token);
-      setSchedule(refreshed);
+      // Queue the status change; it is sent now if we're online, or replayed later
+      const synced = await queueMutation('schedule-status', schedule._id, { status: 'in-progress' });
+      let current: Schedule = { ...schedule, status: 'in-progress', actualStartTime: new Date().toISOString() };
+      if (synced) {
+        // Re-fetch the schedule with populated bins so the in-progress UI loads correctly
+        const fallback = current;
+        current = await fetchWithCache(cacheKeys.schedule(schedule._id), () => getScheduleById(schedule._id))
+          .then(result => result.data)
+          .catch(() => fallback);
+      }
+      setSchedule(current);
       // Set the first stop as selected for the UI
-      if (refreshed.binSequence && refreshed.binSequence.length > 0 && typeof refreshed.binSequence[0] !== 'string') {
-        setSelectedBin({ ...(refreshed.binSequence[0] as Bin), index: 0 });
+      if (current.binSequence && current.binSequence.length > 0 && typeof current.binSequence[0] !== 'string') {
+        setSelectedBin({ ...(current.binSequence[0] as Bin), index: 0 });
       }
     } catch (error) {
       console.error('Error starting collection:', error);
+      // Nothing was recorded, so go back to the not-started view
+      setActiveCollection(false);
       Alert.alert('Error', 'Failed to start collection. Please try again.');
       return;
     }
@@ -122,39 +451,351 @@ const CollectorRouteScreen = () => {
     focusOnStop(0);
   };
   
+  // Bins that have been collected or skipped; deferred bins stay open until they come round again
+  const resolvedStops = [...completedStops, ...skippedStops.map(skip => skip.binId)];
+  const isStopResolved = (binId: string) => resolvedStops.includes(binId);
+  
+  // Advance to the next open stop after fromIndex, wrapping round to any earlier one the collector jumped past.
+  // Once every stop is resolved, head for the end point.
+  const advanceToNextStop = (fromIndex: number, resolved: string[], binSequence = schedule?.binSequence) => {
+    if (!binSequence) return;
+    const bins = binSequence as (string | Bin)[];
+    const isOpen = (bin: string | Bin) => typeof bin !== 'string' && !resolved.includes(bin._id);
+    let nextIndex = bins.findIndex((bin, index) => index > fromIndex && isOpen(bin));
+    if (nextIndex === -1) nextIndex = bins.findIndex(isOpen);
+    
+    if (nextIndex === -1) {
+      // Every stop has an outcome: focus segment from last bin to end point
+      console.log('All stops resolved, proceeding to end point');
+      setAllBinsCollected(true);
+      setSelectedBin(null);
+      focusEndSegment(Math.min(fromIndex, bins.length - 1), binSequence);
+      return;
+    }
+    console.log('Advancing to next stop:', nextIndex);
+    setCurrentStopIndex(nextIndex);
+    setSelectedBin({ ...(bins[nextIndex] as Bin), index: nextIndex });
+    focusMapOnActiveSegment(nextIndex, binSequence);
+  };
+  
+  // Take a before or after photo of the current bin
+  const takeStopPhoto = async (binId: string, kind: keyof ProofPhotos) => {
+    try {
+      const uri = await capturePhoto();
+      if (!uri) return;
+      setStopPhotos(prev => ({ ...prev, [binId]: { ...prev[binId], [kind]: uri } }));
+    } catch (error: any) {
+      Alert.alert('Camera Unavailable', error?.message || 'Could not open the camera.');
+    }
+  };
+  
+  // Estimated truck load from the bins collected since the last dump trip
+  const truckCapacity = getTruckCapacity(collector);
+  const truckLoad = getTruckLoad(
+    ((schedule?.binSequence ?? []) as (string | Bin)[])
+      .filter((bin): bin is Bin => typeof bin !== 'string' && completedStops.includes(bin._id)),
+    dumpTrips,
+    binWeights
+  );
+  const dumpTripActive = dumpTripStartedAt !== null;
+  const disposalSiteCoords = schedule?.areaId?.endLocation?.coordinates;
+  
+  // Head to the offload facility to empty the truck; the route resumes at the same stop afterwards
+  const startDumpTrip = () => {
+    if (!disposalSiteCoords) {
+      Alert.alert('No Disposal Site', 'This area has no offload facility to empty the truck at.');
+      return;
+    }
+    setDumpTripStartedAt(new Date().toISOString());
+    setFollowMode(false);
+    const from = position ?? (selectedBin?.location ? fromGeoJson(selectedBin.location.coordinates) : null);
+    mapRef.current?.fitToCoordinates(
+      [...(from ? [from] : []), fromGeoJson(disposalSiteCoords)],
+      { edgePadding: { top: 50, right: 50, bottom: 50, left: 50 }, animated: true }
+    );
+  };
+  
+  const completeDumpTrip = () => {
+    if (!schedule || !dumpTripStartedAt) return;
+    const trip: DumpTrip = {
+      startedAt: dumpTripStartedAt,
+      completedAt: new Date().toISOString(),
+      loadKg: Math.round(truckLoad),
+    };
+    setDumpTrips(prev => [...prev, trip]);
+    setDumpTripStartedAt(null);
+    queueMutation('dump-trip', schedule._id, trip).catch(error => {
+      console.error('Error queueing dump trip:', error);
+    });
+    // Resume the route where it was left
+    focusMapOnActiveSegment(currentStopIndex);
+  };
+  
+  // Stop the route for a break, refuel or truck swap; tracking stops until it resumes
+  const pauseRoute = async (reason: PauseReason, note?: string) => {
+    setPauseDialogVisible(false);
+    if (!schedule) return;
+    // The server records the break from the same time, so the two copies match up when the route is restored
+    const startedAt = new Date().toISOString();
+    setFollowMode(false);
+    // Send the path driven so far before tracking stops
+    await uploadTrack();
+    setBreaks(prev => [...prev, { reason, note, startedAt }]);
+    setSchedule({ ...schedule, status: 'paused' });
+    queueMutation('schedule-status', schedule._id, { status: 'paused', reason, note, occurredAt: startedAt }).catch(error => {
+      console.error('Error queueing route pause:', error);
+      Alert.alert('Error', 'Failed to save the pause on the device. Please try again.');
+    });
+  };
+  
+  const resumeRoute = () => {
+    if (!schedule) return;
+    const endedAt = new Date().toISOString();
+    setBreaks(prev => prev.map(shiftBreak => (shiftBreak.endedAt ? shiftBreak : { ...shiftBreak, endedAt })));
+    setSchedule({ ...schedule, status: 'in-progress' });
+    queueMutation('schedule-status', schedule._id, { status: 'in-progress', occurredAt: endedAt }).catch(error => {
+      console.error('Error queueing route resume:', error);
+      Alert.alert('Error', 'Failed to save the resume on the device. Please try again.');
+    });
+    if (allBinsCollected) return;
+    focusMapOnActiveSegment(currentStopIndex);
+  };
+  
+  // End the route early, e.g. after a breakdown; the open stops go back to dispatch to be reassigned
+  const abandonRoute = async (reason: AbandonReason, note?: string) => {
+    setAbandonDialogVisible(false);
+    if (!schedule) return;
+    const remainingBins = (schedule.binSequence as (string | Bin)[])
+      .map(bin => (typeof bin === 'string' ? bin : bin._id))
+      .filter(binId => !isStopResolved(binId));
+    try {
+      // Send the rest of the driven path before closing the route
+      await uploadTrack();
+      // Queued behind the collected bins, so the server knows exactly which stops are left
+      const synced = await queueMutation('abandon-route', schedule._id, { reason, note, remainingBins });
+      // The cached copy shows the route as ended, and there is nothing left to resume
+      setActiveCollection(false);
+      setSchedule({
+        ...schedule,
+        status: 'cancelled',
+        cancellation: { reason, note, remainingBins, cancelledAt: new Date().toISOString() },
+      });
+      await clearRouteSession(schedule._id);
+      if (synced) {
+        navigation.replace('RouteSummary', { scheduleId: schedule._id });
+      } else {
+        Alert.alert(
+          'Saved Offline',
+          'The route has been ended on this device. The remaining stops will be handed back when you are online.'
+        );
+        navigation.navigate('CollectorMain');
+      }
+    } catch (error) {
+      console.error('Error abandoning route:', error);
+      Alert.alert('Error', 'Failed to end the route. Please try again.');
+    }
+  };
+  
+  // Close the route once every stop is resolved. The button stays disabled until this returns,
+  // so a second tap can't queue another completion or upload the track twice.
+  const finishRoute = async () => {
+    if (!schedule || !isSignedIn || finishing) return;
+    setFinishing(true);
+    try {
+      // Send the rest of the driven path before closing the route
+      await uploadTrack();
+      // Queued behind the collected bins, so the server always sees them first
+      const synced = await queueMutation('schedule-status', schedule._id, { status: 'completed' });
+      // The cached copy shows the route as finished, and there is nothing left to resume
+      setActiveCollection(false);
+      setSchedule({ ...schedule, status: 'completed', actualEndTime: new Date().toISOString() });
+      await clearRouteSession(schedule._id);
+      if (synced) {
+        navigation.replace('RouteSummary', { scheduleId: schedule._id });
+      } else {
+        Alert.alert(
+          'Saved Offline',
+          'The route is complete on this device and will sync automatically when you are back online.'
+        );
+        navigation.navigate('CollectorMain');
+      }
+    } catch (error) {
+      console.error(error);
+      Alert.alert('Error', 'Failed to complete schedule.');
+    } finally {
+      setFinishing(false);
+    }
+  };
+  
   // Mark the current bin as collected and advance to next stop
-  const markBinCollected = () => {
+  const markBinCollected = (overflowConfirmed = false) => {
     if (!schedule) return;
-    // update completed stops locally
+    // update completed stops locally, then queue it for the server
     const currentBin = schedule.binSequence[currentStopIndex] as Bin;
-    if (currentBin) {
+    if (!currentBin) return;
+    const photos = stopPhotos[currentBin._id] ?? {};
+    if (REQUIRE_PROOF_PHOTO && !isStopResolved(currentBin._id) && !photos.after) {
+      Alert.alert('Photo Required', 'Take an "after" photo of the emptied bin before marking it as collected.');
+      return;
+    }
+    // A weight typed in at the stop wins over the estimate from the fill level
+    const weightInput = weightInputs[currentBin._id]?.trim();
+    const enteredKg = weightInput ? Number(weightInput.replace(',', '.')) : undefined;
+    if (enteredKg !== undefined && !(enteredKg >= 0)) {
+      Alert.alert('Invalid Weight', 'Enter the collected weight in kg, or leave it blank to use the estimate.');
+      return;
+    }
+    const weight: CollectedWeight = enteredKg !== undefined
+      ? { kg: enteredKg, estimated: false }
+      : { kg: estimateBinLoad(currentBin), estimated: true };
+    if (!overflowConfirmed && !isStopResolved(currentBin._id) && truckLoad + weight.kg > truckCapacity) {
+      Alert.alert(
+        'Truck Nearly Full',
+        `This bin would take the truck over its ${truckCapacity} kg capacity. Empty the truck first?`,
+        [
+          { text: 'Collect Anyway', onPress: () => markBinCollected(true) },
+          { text: 'Start Dump Trip', onPress: startDumpTrip },
+        ]
+      );
+      return;
+    }
+    if (!isStopResolved(currentBin._id)) {
       setCompletedStops(prev => [...prev, currentBin._id]);
+      setBinWeights(prev => ({ ...prev, [currentBin._id]: weight }));
+      setBinCollectedAt(prev => ({ ...prev, [currentBin._id]: new Date().toISOString() }));
+      queueCollectedBin(currentBin._id, photos, weight).catch(error => {
+        console.error(`Error queueing collected bin ${currentBin._id}:`, error);
+        Alert.alert('Error', 'Failed to save this collection on the device. Please try again.');
+      });
     }
-    setCurrentStopIndex(prevIndex => {
-      console.log('markBinCollected: previous index =', prevIndex);
-      if (!schedule) {
-        console.log('markBinCollected: no schedule loaded');
-        return prevIndex;
-      }
-      const totalBins = schedule.binSequence.length;
-      const nextIndex = prevIndex + 1;
-      if (nextIndex < totalBins) {
-        console.log('Advancing to next stop:', nextIndex);
-        setSelectedBin({ ...(schedule.binSequence[nextIndex] as Bin), index: nextIndex });
-        focusMapOnActiveSegment(nextIndex);
-        return nextIndex;
-      } else {
-        // All bins collected: focus segment from last bin to end point
-        setAllBinsCollected(true);
-        // clear selected bin
-        setSelectedBin(null);
-        // focus map on last-to-end segment
-        focusEndSegment(prevIndex);
-        return prevIndex;
-      }
+    advanceToNextStop(currentStopIndex, [...resolvedStops, currentBin._id]);
+  };
+  
+  const queueCollectedBin = async (binId: string, photos: ProofPhotos, weight: CollectedWeight) => {
+    if (!schedule) return;
+    // Keep the photos somewhere they survive until the queued collection is sent
+    const keep = (uri?: string) => (uri ? persistImage(uri).catch(() => uri) : Promise.resolve(undefined));
+    const [before, after] = await Promise.all([keep(photos.before), keep(photos.after)]);
+    await queueMutation('collect-bin', schedule._id, {
+      binId,
+      arrivedAt: stopVisits[binId]?.arrivedAt,
+      photoUris: before || after ? { before, after } : undefined,
+      weight,
     });
   };
+  
+  // Record why the current bin could not be collected, report it and move on
+  const skipCurrentStop = async (reason: SkipReason, note?: string, photoUri?: string) => {
+    setSkipDialogVisible(false);
+    if (!schedule) return;
+    const currentBin = schedule.binSequence[currentStopIndex] as Bin;
+    if (!currentBin || isStopResolved(currentBin._id)) return;
+    
+    setSkippedStops(prev => [...prev, { binId: currentBin._id, reason, note, skippedAt: new Date().toISOString() }]);
+    advanceToNextStop(currentStopIndex, [...resolvedStops, currentBin._id]);
+    
+    try {
+      // Keep the photo somewhere it survives until the queued skip is sent
+      const storedPhotoUri = photoUri ? await persistImage(photoUri).catch(() => photoUri) : undefined;
+      await queueMutation('skip-bin', schedule._id, {
+        binId: currentBin._id,
+        reason,
+        note,
+        photoUri: storedPhotoUri,
+        arrivedAt: stopVisits[currentBin._id]?.arrivedAt,
+      });
+    } catch (error) {
+      console.error(`Error queueing skipped bin ${currentBin._id}:`, error);
+      Alert.alert('Error', 'Failed to save this skipped stop on the device. Please try again.');
+    }
+  };
+  
+  // Move the current bin to the end of the route and carry on with the next one
+  const deferCurrentStop = () => {
+    if (!schedule) return;
+    const bins = schedule.binSequence as Bin[];
+    const currentBin = bins[currentStopIndex];
+    if (!currentBin) return;
+    
+    const binSequence = [...bins.slice(0, currentStopIndex), ...bins.slice(currentStopIndex + 1), currentBin];
+    setSchedule({ ...schedule, binSequence });
+    setDeferredStops(prev => (prev.includes(currentBin._id) ? prev : [...prev, currentBin._id]));
+    // The next bin has moved up into the current position
+    advanceToNextStop(currentStopIndex - 1, resolvedStops, binSequence);
+  };
 
+  // Open stops in the order they will be visited, starting with the current one
+  const getOpenStops = (): Bin[] => {
+    if (!schedule) return [];
+    const bins = schedule.binSequence as (string | Bin)[];
+    return [...bins.slice(currentStopIndex), ...bins.slice(0, currentStopIndex)]
+      .filter((bin): bin is Bin => typeof bin !== 'string' && !isStopResolved(bin._id));
+  };
+  
+  // Apply a new order for the open stops, keep resolved stops ahead of them, and report the change
+  const applyStopOrder = (binIds: string[], reason: ResequenceReason, note?: string) => {
+    setReorderVisible(false);
+    if (!schedule) return;
+    const bins = schedule.binSequence as Bin[];
+    const resolvedBins = bins.filter(bin => isStopResolved(bin._id));
+    const reordered = binIds
+      .map(id => bins.find(bin => bin._id === id))
+      .filter((bin): bin is Bin => !!bin);
+    const binSequence = [...resolvedBins, ...reordered];
+    
+    setSchedule({ ...schedule, binSequence });
+    advanceToNextStop(resolvedBins.length - 1, resolvedStops, binSequence);
+    queueMutation('reorder-stops', schedule._id, {
+      binIds: binSequence.map(bin => bin._id),
+      reason,
+      note,
+    }).catch(error => {
+      console.error('Error queueing new stop order:', error);
+      Alert.alert('Error', 'Failed to save the new stop order on the device. Please try again.');
+    });
+  };
+  
+  // Re-order the open stops into the shortest drive from the truck to the end location
+  const handleOptimizeRoute = () => {
+    if (!schedule) return;
+    const openStops = getOpenStops().filter(bin => bin.location?.coordinates);
+    if (openStops.length < 2) return;
+    
+    // Without a GPS fix, start from the last stop or the depot
+    const prevBin = schedule.binSequence[currentStopIndex - 1];
+    const startCoords = prevBin && typeof prevBin !== 'string'
+      ? prevBin.location?.coordinates
+      : schedule.areaId?.startLocation?.coordinates;
+    const start = position ?? (startCoords ? { latitude: startCoords[1], longitude: startCoords[0] } : null);
+    if (!start) {
+      Alert.alert('Location Unavailable', 'Waiting for a GPS fix. Try again in a moment.');
+      return;
+    }
+    const endCoords = schedule.areaId?.endLocation?.coordinates;
+    const end = endCoords ? { latitude: endCoords[1], longitude: endCoords[0] } : undefined;
+    const stops = openStops.map(bin => ({
+      id: bin._id,
+      latitude: bin.location.coordinates[1],
+      longitude: bin.location.coordinates[0],
+    }));
+    
+    const currentCost = getRouteCost(start, stops, end);
+    const { order, cost } = optimizeStopOrder(start, stops, end);
+    const saving = currentCost - cost;
+    if (saving < MIN_OPTIMIZATION_SAVING_M) {
+      Alert.alert('Route Already Optimal', 'The remaining stops are already in a good order.');
+      return;
+    }
+    Alert.alert(
+      'Optimize Remaining Stops',
+      `Reordering the ${stops.length} remaining stops saves about ${(saving / 1000).toFixed(1)} km.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reorder', onPress: () => applyStopOrder(order, 'optimized') },
+      ]
+    );
+  };
+  
   // Focus the map on a specific stop
   const focusOnStop = (stopIndex: number) => {
     if (!schedule || !schedule.binSequence || !mapRef.current) return;
@@ -171,10 +812,10 @@ const CollectorRouteScreen = () => {
   };
   
   // Focus map on active segment of the route
-  const focusMapOnActiveSegment = (stopIndex: number) => {
-    if (!schedule || !schedule.route || !schedule.binSequence || !mapRef.current) return;
+  const focusMapOnActiveSegment = (stopIndex: number, binSequence = schedule?.binSequence) => {
+    if (!schedule || !schedule.route || !binSequence || !mapRef.current) return;
     
-    const bin = schedule.binSequence[stopIndex];
+    const bin = binSequence[stopIndex];
     if (!bin || typeof bin === 'string' || !bin.location || !bin.location.coordinates) return;
     
     // For the first stop, show from depot to first stop
@@ -196,7 +837,7 @@ const CollectorRouteScreen = () => {
     }
     
     // For stops in the middle, show from previous stop to current stop
-    const prevBin = schedule.binSequence[stopIndex - 1];
+    const prevBin = binSequence[stopIndex - 1];
     if (!prevBin || typeof prevBin === 'string' || !prevBin.location || !prevBin.location.coordinates) return;
     
     const prevPoint = {
@@ -215,9 +856,10 @@ const CollectorRouteScreen = () => {
   };
   
   // Focus map on segment from last collected bin to end point
-  const focusEndSegment = (lastIndex: number) => {
-    if (!schedule?.areaId?.endLocation?.coordinates || !schedule) return;
-    const lastBin = schedule.binSequence[lastIndex] as Bin;
+  const focusEndSegment = (lastIndex: number, binSequence = schedule?.binSequence) => {
+    if (!schedule?.areaId?.endLocation?.coordinates || !binSequence) return;
+    const lastBin = binSequence[lastIndex] as Bin;
+    if (!lastBin?.location?.coordinates) return;
     const endCoords = schedule.areaId.endLocation.coordinates;
     mapRef.current?.fitToCoordinates(
       [
@@ -265,8 +907,8 @@ const CollectorRouteScreen = () => {
   const isScheduleCompleted = () => {
     if (!schedule || !schedule.binSequence) return false;
     
-    // Check if all bins are collected
-    return completedStops.length === schedule.binSequence.length;
+    // Check if every bin has been collected or skipped
+    return resolvedStops.length >= schedule.binSequence.length;
   };
   
   // Function to check if a specific bin is already collected
@@ -276,28 +918,8 @@ const CollectorRouteScreen = () => {
   
   // Map bounds calculation for route
   const getMapBounds = useMemo(() => {
-    if (!schedule || !schedule.route || schedule.route.length === 0) {
-      return null;
-    }
-    
-    let minLat = schedule.route[0][1]; // Fixed: Using longitude/latitude in correct order
-    let maxLat = schedule.route[0][1]; // Fixed: Using longitude/latitude in correct order
-    let minLng = schedule.route[0][0]; // Fixed: Using longitude/latitude in correct order
-    let maxLng = schedule.route[0][0]; // Fixed: Using longitude/latitude in correct order
-    
-    schedule.route.forEach((point) => {
-      minLat = Math.min(minLat, point[1]); // Fixed: Using longitude/latitude in correct order
-      maxLat = Math.max(maxLat, point[1]); // Fixed: Using longitude/latitude in correct order
-      minLng = Math.min(minLng, point[0]); // Fixed: Using longitude/latitude in correct order
-      maxLng = Math.max(maxLng, point[0]); // Fixed: Using longitude/latitude in correct order
-    });
-    
-    return {
-      minLat,
-      maxLat,
-      minLng,
-      maxLng,
-    };
+    if (!schedule || !schedule.route) return null;
+    return getBoundingBox(schedule.route.map(fromGeoJson));
   }, [schedule]);
   
   // Fit map to show the entire route
@@ -321,29 +943,13 @@ const CollectorRouteScreen = () => {
   // Get the polyline coordinates for active route segment
   const getActiveRouteCoordinates = useMemo(() => {
     if (!schedule || !schedule.route || !activeCollection) return [];
-    const endCoords = schedule.areaId?.endLocation?.coordinates;
-    if (!endCoords) return [];
-    // Determine last reference bin: use currentStopIndex (last collected) or first if none collected
-    const refIndex = Math.max(0, currentStopIndex);
-    const refBin = schedule.binSequence[refIndex] as Bin;
+    if (!schedule.areaId?.endLocation?.coordinates) return [];
+    // Reference bin: the current stop, or the first if none collected
+    const refBin = schedule.binSequence[Math.max(0, currentStopIndex)] as Bin;
     if (!refBin || !refBin.location?.coordinates) return [];
-    // Find closest route point index to the bin
-    const binCoord = refBin.location.coordinates;
-    let nearestIdx = 0;
-    let minDist = Infinity;
-    schedule.route.forEach((pt, idx) => {
-      const dx = pt[0] - binCoord[0];
-      const dy = pt[1] - binCoord[1];
-      const dist = dx * dx + dy * dy;
-      if (dist < minDist) {
-        minDist = dist;
-        nearestIdx = idx;
-      }
-    });
-    // Slice from nearest route point to end of route
-    const segment = schedule.route.slice(nearestIdx);
-    // Map to LatLng
-    return segment.map(pt => ({ latitude: pt[1], longitude: pt[0] }));
+    // From the bin's position on the route to the end of the route
+    const routeCoords = schedule.route.map(fromGeoJson);
+    return slicePolyline(routeCoords, projectOntoPolyline(fromGeoJson(refBin.location.coordinates), routeCoords));
   }, [schedule, activeCollection, currentStopIndex]);
   
   // Get the remaining route coordinates (shown in lighter color)
@@ -353,37 +959,12 @@ const CollectorRouteScreen = () => {
     // If we're on the last stop, return empty array
     if (currentStopIndex >= (schedule.binSequence?.length || 0) - 1) return [];
     
-    // Try to find the current bin in the route
     const currentBin = schedule.binSequence?.[currentStopIndex];
     if (!currentBin || typeof currentBin === 'string' || !currentBin.location) return [];
     
-    const currentCoords = [currentBin.location.coordinates[0], currentBin.location.coordinates[1]];
-    
-    // Find closest point in route to current bin
-    let currentPointIndex = -1;
-    let minDistance = Infinity;
-    
-    schedule.route.forEach((point, index) => {
-      const distance = Math.sqrt(
-        Math.pow(point[0] - currentCoords[0], 2) + 
-        Math.pow(point[1] - currentCoords[1], 2)
-      );
-      
-      if (distance < minDistance) {
-        minDistance = distance;
-        currentPointIndex = index;
-      }
-    });
-    
-    // Return the remainder of the route
-    if (currentPointIndex !== -1 && currentPointIndex < schedule.route.length - 1) {
-      return schedule.route.slice(currentPointIndex + 1).map(point => ({
-        latitude: point[1],
-        longitude: point[0]
-      }));
-    }
-    
-    return [];
+    // Return the remainder of the route after the current bin
+    const routeCoords = schedule.route.map(fromGeoJson);
+    return slicePolyline(routeCoords, projectOntoPolyline(fromGeoJson(currentBin.location.coordinates), routeCoords));
   }, [schedule, activeCollection, currentStopIndex]);
   
   // Function to get the next stop preview
@@ -411,36 +992,79 @@ const CollectorRouteScreen = () => {
       return { activeSegmentCoords: [], futureSegmentCoords: [] };
     }
     // Convert full route to LatLng array
-    const fullCoords = schedule.route.map(point => ({ latitude: point[1], longitude: point[0] }));
-    // Helper to find closest point index
-    const findClosestIndex = (coords: [number, number]) => {
-      let bestIdx = -1;
-      let minDist = Infinity;
-      schedule.route.forEach((pt, i) => {
-        const d = (pt[0] - coords[0]) ** 2 + (pt[1] - coords[1]) ** 2;
-        if (d < minDist) { minDist = d; bestIdx = i; }
-      });
-      return bestIdx;
-    };
+    const fullCoords = schedule.route.map(fromGeoJson);
+    // Where a bin sits along the route
+    const projectBin = (bin: Bin) => projectOntoPolyline(fromGeoJson(bin.location.coordinates), fullCoords);
     // Current bin
     const currentBin = schedule.binSequence[currentStopIndex];
-    if (typeof currentBin === 'string' || !currentBin.location) {
+    if (!currentBin || typeof currentBin === 'string' || !currentBin.location) {
       return { activeSegmentCoords: fullCoords, futureSegmentCoords: [] };
     }
-    const currentIdx = findClosestIndex(currentBin.location.coordinates as [number, number]);
-    // Previous bin if exists
-    let prevIdx = 0;
-    if (currentStopIndex > 0) {
-      const prevBin = schedule.binSequence[currentStopIndex - 1];
-      if (typeof prevBin !== 'string' && prevBin.location) {
-        prevIdx = findClosestIndex(prevBin.location.coordinates as [number, number]);
-      }
+    const currentProjection = projectBin(currentBin);
+    // Previous bin if exists, otherwise the start of the route
+    const prevBin = currentStopIndex > 0 ? schedule.binSequence[currentStopIndex - 1] : undefined;
+    const prevProjection = prevBin && typeof prevBin !== 'string' && prevBin.location ? projectBin(prevBin) : null;
+    // Open stops still to come after the current one
+    const upcomingBins = (schedule.binSequence as Bin[])
+      .slice(currentStopIndex + 1)
+      .filter(bin => bin.location && !completedStops.includes(bin._id) && !skippedStops.some(skip => skip.binId === bin._id));
+    const followsRoute = [prevProjection, currentProjection, ...upcomingBins.map(projectBin)]
+      .map(projection => projection?.distanceAlong ?? 0)
+      .every((along, i, all) => i === 0 || along >= all[i - 1]);
+    
+    if (!followsRoute) {
+      // The stops were reordered away from the planned route, so join them directly in their new order
+      const startCoords = prevBin && typeof prevBin !== 'string' && prevBin.location
+        ? prevBin.location.coordinates
+        : schedule.areaId?.startLocation?.coordinates;
+      const endCoords = schedule.areaId?.endLocation?.coordinates;
+      const current = fromGeoJson(currentBin.location.coordinates);
+      return {
+        activeSegmentCoords: startCoords ? [fromGeoJson(startCoords), current] : [],
+        futureSegmentCoords: [
+          current,
+          ...upcomingBins.map(bin => fromGeoJson(bin.location.coordinates)),
+          ...(endCoords ? [fromGeoJson(endCoords)] : []),
+        ],
+      };
     }
     // Slice segments
-    const active = fullCoords.slice(prevIdx, currentIdx + 1);
-    const future = fullCoords.slice(currentIdx); // include current bin to next
+    const active = slicePolyline(fullCoords, prevProjection, currentProjection);
+    const future = slicePolyline(fullCoords, currentProjection); // include current bin to next
     return { activeSegmentCoords: active, futureSegmentCoords: future };
-  }, [schedule, currentStopIndex]);
+  }, [schedule, currentStopIndex, completedStops, skippedStops]);
+  
+  // Remaining distance, projected finish and schedule delta for the whole route
+  const routeProgress = useMemo(() => {
+    if (!schedule || !activeCollection || allBinsCollected || !schedule.actualStartTime) return null;
+    // Time on breaks doesn't count against the schedule
+    const startedAt = new Date(schedule.actualStartTime);
+    const breakMs = getBreakMinutes(breaks, startedAt, new Date()) * 60000;
+    // The stops already dealt with before the current one place the truck on the right pass of the route
+    const resolved = [...completedStops, ...skippedStops.map(skip => skip.binId)];
+    const visitedStops = (schedule.binSequence as (string | Bin)[])
+      .slice(0, Math.max(currentStopIndex, 0))
+      .filter((bin): bin is Bin => typeof bin !== 'string' && !!bin.location && resolved.includes(bin._id))
+      .map(bin => fromGeoJson(bin.location.coordinates));
+    return getRouteProgress({
+      route: (schedule.route || []).map(fromGeoJson),
+      plannedMinutes: schedule.duration || 0,
+      startedAt: new Date(startedAt.getTime() + breakMs),
+      position,
+      visitedStops,
+      completedFraction: (completedStops.length + skippedStops.length) / (schedule.binSequence.length || 1),
+    });
+  }, [schedule, activeCollection, allBinsCollected, currentStopIndex, position, completedStops, skippedStops, breaks]);
+  
+  // Next instruction along the active segment, or straight to the offload facility on a dump trip
+  const guidance = useMemo(() => {
+    if (!activeCollection || allBinsCollected || paused || !position) return null;
+    if (dumpTripActive) {
+      return disposalSiteCoords ? getGuidance(position, [fromGeoJson(disposalSiteCoords)]) : null;
+    }
+    if (activeSegmentCoords.length === 0) return null;
+    return getGuidance(position, activeSegmentCoords);
+  }, [activeCollection, allBinsCollected, paused, position, activeSegmentCoords, dumpTripActive, disposalSiteCoords]);
 
   if (loading) {
     return (
@@ -463,6 +1087,35 @@ const CollectorRouteScreen = () => {
     );
   }
   
+  // Ask for a one-tap confirmation once the truck has dwelled at the current stop, but not during a break
+  const currentStopBin = schedule.binSequence[currentStopIndex];
+  const showArrivalPrompt =
+    activeCollection &&
+    !paused &&
+    !dumpTripActive &&
+    !allBinsCollected &&
+    !!currentStopBin &&
+    typeof currentStopBin !== 'string' &&
+    dwellingBinId === currentStopBin._id &&
+    !isStopResolved(currentStopBin._id) &&
+    dismissedArrivalBinId !== currentStopBin._id;
+  // Warn before the next bin would overfill the truck
+  const nextBinLoad = currentStopBin && typeof currentStopBin !== 'string' ? estimateBinLoad(currentStopBin) : 0;
+  const truckNearlyFull =
+    truckLoad >= truckCapacity * NEAR_FULL_FRACTION || truckLoad + nextBinLoad > truckCapacity;
+  // Deferring or reordering only makes sense while another stop is still open
+  const canDeferCurrentStop = schedule.binSequence.length - resolvedStops.length > 1;
+  // Progress per waste stream, shown when the route mixes streams
+  const sequenceBins = (schedule.binSequence as (string | Bin)[]).filter((bin): bin is Bin => typeof bin !== 'string');
+  const wasteTypeProgress = groupByWasteType(sequenceBins).map(group => ({
+    wasteType: group.wasteType,
+    total: group.bins.length,
+    resolved: group.bins.filter(bin => isStopResolved(bin._id)).length,
+  }));
+  const listedBins = wasteTypeFilter
+    ? sequenceBins.filter(bin => normalizeWasteType(bin.wasteType) === wasteTypeFilter)
+    : sequenceBins;
+  
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="dark-content" backgroundColor="#f9f9f9" />
@@ -480,6 +1133,7 @@ const CollectorRouteScreen = () => {
             longitudeDelta: LONGITUDE_DELTA,
           }}
           onMapReady={fitMapToRoute}
+          onPanDrag={() => followMode && setFollowMode(false)}
           showsUserLocation={false}
           showsMyLocationButton={false}
           showsCompass={true}
@@ -522,6 +1176,44 @@ const CollectorRouteScreen = () => {
             />
           )}
           
+          {/* Detour to empty the truck */}
+          {dumpTripActive && disposalSiteCoords && (position || selectedBin?.location) && (
+            <Polyline
+              coordinates={[
+                position ?? fromGeoJson((selectedBin as Bin).location.coordinates),
+                fromGeoJson(disposalSiteCoords),
+              ]}
+              strokeWidth={4}
+              strokeColor="#B45309"
+              lineDashPattern={[10, 6]}
+              zIndex={5}
+            />
+          )}
+          
+          {/* Path actually driven */}
+          {activeCollection && breadcrumb.length > 1 && (
+            <Polyline
+              coordinates={breadcrumb.map(point => ({ latitude: point.latitude, longitude: point.longitude }))}
+              strokeWidth={4}
+              strokeColor="#2563EB"
+              zIndex={4}
+            />
+          )}
+          
+          {/* Truck position */}
+          {activeCollection && position && (
+            <Marker
+              coordinate={{ latitude: position.latitude, longitude: position.longitude }}
+              title="Your Truck"
+              anchor={{x: 0.5, y: 0.5}}
+              zIndex={10}
+            >
+              <View style={styles.truckMarkerContainer}>
+                <MaterialCommunityIcons name="truck" size={16} color="#FFF" />
+              </View>
+            </Marker>
+          )}
+          
           {/* Start Location Marker - Using area's fixed start location */}
           {schedule.areaId && schedule.areaId.startLocation && schedule.areaId.startLocation.coordinates && (
             <Marker
@@ -579,7 +1271,13 @@ const CollectorRouteScreen = () => {
             
             // Determine highlight state: no current bin when proceeding to end
             const isCompleted = isBinCollected(bin._id);
+            const isSkipped = skippedStops.some(skip => skip.binId === bin._id);
+            const isDeferred = !isCompleted && !isSkipped && deferredStops.includes(bin._id);
             const isCurrent = activeCollection && !allBinsCollected && index === currentStopIndex;
+            const notForTruck = !isBinForRun(bin, schedule.wasteType);
+            if (!activeCollection && wasteTypeFilter && normalizeWasteType(bin.wasteType) !== wasteTypeFilter) {
+              return null;
+            }
             
             return (
               <Marker
@@ -588,8 +1286,9 @@ const CollectorRouteScreen = () => {
                   latitude: bin.location.coordinates[1],
                   longitude: bin.location.coordinates[0],
                 }}
-                title={`Bin ${index + 1}${isCompleted ? ' (Collected)' : ''}`}
-                description={`Fill Level: ${bin.fillLevel || 0}% - ${bin.wasteType || 'General'}`}
+                title={`Bin ${index + 1}${isCompleted ? ' (Collected)' : isSkipped ? ' (Skipped)' : isDeferred ? ' (Deferred)' : ''}`}
+                description={`Fill Level: ${bin.fillLevel || 0}% - ${formatWasteType(bin.wasteType)}${notForTruck ? ' - Not for this truck' : ''}`}
+                opacity={notForTruck ? 0.5 : 1}
                 anchor={{x: 0.5, y: 0.5}}
                 onPress={() => {
                   // Center map on selected bin
@@ -603,8 +1302,8 @@ const CollectorRouteScreen = () => {
                   // Also highlight this bin in the list below
                   setSelectedBin({...bin, index});
                   
-                  // In active collection mode, allow jumping to this stop
-                  if (activeCollection) {
+                  // In active collection mode, allow jumping to any stop that is still open
+                  if (activeCollection && !isStopResolved(bin._id)) {
                     setCurrentStopIndex(index);
                   }
                 }}
@@ -615,8 +1314,8 @@ const CollectorRouteScreen = () => {
                   <View style={[
                     styles.binMarker,
                     {
-                      backgroundColor: isCompleted ? '#9E9E9E' : getBinFillColor(bin.fillLevel || 0),
-                      borderColor: isCurrent ? 'rgba(18,128,92,1)' : '#FFFFFF',
+                      backgroundColor: isCompleted ? '#9E9E9E' : isSkipped ? '#4B5563' : getBinFillColor(bin.fillLevel || 0),
+                      borderColor: isCurrent ? 'rgba(18,128,92,1)' : isDeferred ? '#6366F1' : '#FFFFFF',
                       borderWidth: isCurrent ? 3 : 2,
                     }
                   ]}>
@@ -633,12 +1332,90 @@ const CollectorRouteScreen = () => {
           <MaterialCommunityIcons name="arrow-left" size={24} color="#ffffff" />
         </TouchableOpacity>
         
+        {/* Cached data label */}
+        {scheduleSync?.fromCache && (
+          <View style={styles.cachedBadge}>
+            <MaterialCommunityIcons name="cloud-off-outline" size={14} color={scheduleSync.stale ? '#B45309' : '#555'} />
+            <Text style={[styles.cachedBadgeText, scheduleSync.stale && { color: '#B45309' }]}>
+              {formatLastSynced(scheduleSync.syncedAt)}
+            </Text>
+          </View>
+        )}
+        
         {/* Map Controls */}
         <View style={styles.mapControls}>
-          <TouchableOpacity style={styles.mapControlButton} onPress={fitMapToRoute}>
+          <TouchableOpacity
+            style={styles.mapControlButton}
+            onPress={() => {
+              setFollowMode(false);
+              fitMapToRoute();
+            }}
+          >
             <MaterialCommunityIcons name="map-marker-radius" size={24} color="#ffffff" />
           </TouchableOpacity>
+          {activeCollection && (
+            <TouchableOpacity
+              style={[styles.mapControlButton, followMode && styles.mapControlButtonActive]}
+              onPress={toggleFollowMode}
+            >
+              <MaterialCommunityIcons name={followMode ? 'crosshairs-gps' : 'crosshairs'} size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+          {activeCollection && !allBinsCollected && (
+            <TouchableOpacity style={styles.mapControlButton} onPress={handleOptimizeRoute}>
+              <MaterialCommunityIcons name="routes" size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+          {activeCollection && !paused && (
+            <TouchableOpacity style={styles.mapControlButton} onPress={() => setPauseDialogVisible(true)}>
+              <MaterialCommunityIcons name="pause" size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+          {activeCollection && !allBinsCollected && (
+            <TouchableOpacity
+              style={[styles.mapControlButton, styles.mapControlButtonDanger]}
+              onPress={() => setAbandonDialogVisible(true)}
+            >
+              <MaterialCommunityIcons name="close-octagon-outline" size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
         </View>
+        
+        {/* Turn-by-turn guidance to the current stop, or to the offload facility on a dump trip */}
+        {guidance && dumpTripActive && disposalSiteCoords && (
+          <GuidanceBanner
+            guidance={guidance}
+            destinationName="Offload facility"
+            destination={fromGeoJson(disposalSiteCoords)}
+          />
+        )}
+        {guidance && !dumpTripActive && !showArrivalPrompt && currentStopBin && typeof currentStopBin !== 'string' && (
+          <GuidanceBanner
+            guidance={guidance}
+            destinationName={`Stop ${currentStopIndex + 1}`}
+            destination={fromGeoJson(currentStopBin.location.coordinates)}
+          />
+        )}
+        
+        {/* Arrival confirmation */}
+        {showArrivalPrompt && (
+          <View style={styles.arrivalPrompt}>
+            <MaterialCommunityIcons name="map-marker-check" size={28} color="#12805c" />
+            <View style={styles.arrivalPromptInfo}>
+              <Text style={styles.arrivalPromptTitle}>Arrived at Stop {currentStopIndex + 1}</Text>
+              <Text style={styles.arrivalPromptSubtitle}>Has this bin been emptied?</Text>
+            </View>
+            <TouchableOpacity style={styles.arrivalPromptButton} onPress={() => markBinCollected()}>
+              <Text style={styles.arrivalPromptButtonText}>Confirm</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.arrivalPromptDismiss}
+              onPress={() => setDismissedArrivalBinId((currentStopBin as Bin)._id)}
+            >
+              <MaterialCommunityIcons name="close" size={20} color="#666" />
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
       
       {/* Active Collection UI or Regular Stops List */}
@@ -647,37 +1424,148 @@ const CollectorRouteScreen = () => {
           {/* Progress indicator */}
           <View style={styles.progressIndicator}>
             <Text style={styles.progressText}>
-              {allBinsCollected ?
-                `Completed ${completedStops.length} of ${schedule.binSequence.length}` :
-                `Completed ${completedStops.length} of ${schedule.binSequence.length}`
-              }
+              {`Completed ${completedStops.length} of ${schedule.binSequence.length}`}
+              {skippedStops.length > 0 && ` \u2022 ${skippedStops.length} skipped`}
             </Text>
+            {(pendingSyncCount > 0 || !isOnline) && (
+              <TouchableOpacity style={styles.syncBanner} onPress={syncNow} disabled={!isOnline || syncing}>
+                <MaterialCommunityIcons
+                  name={!isOnline ? 'cloud-off-outline' : syncing ? 'cloud-sync' : 'cloud-upload'}
+                  size={16}
+                  color="#B45309"
+                />
+                <Text style={styles.syncText}>
+                  {!isOnline
+                    ? `Offline - ${pendingSyncCount} change${pendingSyncCount === 1 ? '' : 's'} waiting to sync`
+                    : syncing
+                      ? `Syncing ${pendingSyncCount} change${pendingSyncCount === 1 ? '' : 's'}...`
+                      : `${pendingSyncCount} change${pendingSyncCount === 1 ? '' : 's'} waiting to sync - tap to retry`}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {rejectedForSchedule.length > 0 && (
+              <TouchableOpacity
+                style={[styles.syncBanner, styles.syncBannerRejected]}
+                onPress={() => setRejectedDialogVisible(true)}
+              >
+                <MaterialCommunityIcons name="cloud-alert" size={16} color="#B91C1C" />
+                <Text style={[styles.syncText, styles.syncTextRejected]}>
+                  {`${rejectedForSchedule.length} change${rejectedForSchedule.length === 1 ? '' : 's'} not accepted by the server - tap to review`}
+                </Text>
+              </TouchableOpacity>
+            )}
             <View style={styles.progressBar}>
               <View 
                 style={[
                   styles.progressFill, 
-                  { width: `${(completedStops.length / (schedule.binSequence.length || 1)) * 100}%` }
+                  { width: `${(resolvedStops.length / (schedule.binSequence.length || 1)) * 100}%` }
                 ]} 
               />
             </View>
+            {wasteTypeProgress.length > 1 && wasteTypeProgress.map(group => (
+              <View key={group.wasteType} style={styles.wasteTypeProgressRow}>
+                <Text style={styles.wasteTypeProgressLabel}>{formatWasteType(group.wasteType)}</Text>
+                <View style={styles.wasteTypeProgressBar}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      {
+                        width: `${(group.resolved / group.total) * 100}%`,
+                        backgroundColor: isBinForRun({ wasteType: group.wasteType }, schedule.wasteType) ? '#12805c' : '#9CA3AF',
+                      },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.wasteTypeProgressCount}>{group.resolved}/{group.total}</Text>
+              </View>
+            ))}
+            {routeProgress && (
+              <View style={styles.routeProgressRow}>
+                <Text style={styles.routeProgressText}>{formatDistance(routeProgress.remainingMeters)} left</Text>
+                <Text style={styles.routeProgressText}>
+                  Finish ~{format(routeProgress.projectedFinish, 'h:mm a')}
+                </Text>
+                <Text
+                  style={[
+                    styles.routeProgressText,
+                    { color: routeProgress.scheduleDeltaMinutes > 0 ? '#B45309' : '#12805c' },
+                  ]}
+                >
+                  {routeProgress.scheduleDeltaMinutes === 0
+                    ? 'On schedule'
+                    : `${Math.abs(routeProgress.scheduleDeltaMinutes)} min ${routeProgress.scheduleDeltaMinutes > 0 ? 'behind' : 'ahead'}`}
+                </Text>
+              </View>
+            )}
+            <View style={styles.truckLoadRow}>
+              <MaterialCommunityIcons name="truck" size={14} color={truckNearlyFull ? '#B45309' : '#666'} />
+              <Text style={[styles.truckLoadText, truckNearlyFull && { color: '#B45309' }]}>
+                Load ~{Math.round(truckLoad)} of {truckCapacity} kg
+                {truckNearlyFull ? ' - nearly full' : ''}
+              </Text>
+              {truckNearlyFull && !dumpTripActive && !allBinsCollected && (
+                <TouchableOpacity style={styles.dumpTripButton} onPress={startDumpTrip}>
+                  <Text style={styles.dumpTripButtonText}>Dump Trip</Text>
+                </TouchableOpacity>
+              )}
+            </View>
           </View>
           
           {/* Current Stop Card */}
-          {allBinsCollected ? (
+          {paused ? (
+            <View style={styles.currentStopCard}>
+              {(() => {
+                const activeBreak = breaks.find(shiftBreak => !shiftBreak.endedAt);
+                const reason = PAUSE_REASONS.find(item => item.id === activeBreak?.reason);
+                return (
+                  <View style={styles.dumpTripContent}>
+                    <MaterialCommunityIcons name={reason?.icon ?? 'pause-circle'} size={48} color="#6366F1" />
+                    <Text style={styles.proceedTitle}>Route Paused{reason ? ` - ${reason.name}` : ''}</Text>
+                    {activeBreak && (
+                      <Text style={styles.proceedSubtitle}>
+                        Since {format(new Date(activeBreak.startedAt), 'h:mm a')}
+                        {activeBreak.note ? ` - ${activeBreak.note}` : ''}
+                      </Text>
+                    )}
+                  </View>
+                );
+              })()}
+              <TouchableOpacity style={styles.markCollectedButton} onPress={resumeRoute}>
+                <MaterialCommunityIcons name="play" size={24} color="#ffffff" />
+                <Text style={styles.markCollectedButtonText}>Resume Route</Text>
+              </TouchableOpacity>
+            </View>
+          ) : dumpTripActive ? (
+            <View style={styles.currentStopCard}>
+              <View style={styles.dumpTripContent}>
+                <MaterialCommunityIcons name="dump-truck" size={48} color="#B45309" />
+                <Text style={styles.proceedTitle}>Dump Trip</Text>
+                <Text style={styles.proceedSubtitle}>
+                  Empty about {Math.round(truckLoad)} kg at the offload facility, then continue with Stop {currentStopIndex + 1}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.markCollectedButton} onPress={completeDumpTrip}>
+                <MaterialCommunityIcons name="check" size={24} color="#ffffff" />
+                <Text style={styles.markCollectedButtonText}>Truck Emptied</Text>
+              </TouchableOpacity>
+            </View>
+          ) : allBinsCollected ? (
             <View style={styles.proceedCard}>
               <MaterialCommunityIcons name="flag-checkered" size={48} color="#12805c" />
-              <Text style={styles.proceedTitle}>All bins have been collected</Text>
+              <Text style={styles.proceedTitle}>
+                {skippedStops.length > 0 ? 'All stops have been visited' : 'All bins have been collected'}
+              </Text>
+              {skippedStops.length > 0 && (
+                <Text style={styles.proceedSubtitle}>
+                  {completedStops.length} collected, {skippedStops.length} skipped
+                </Text>
+              )}
               <Text style={styles.proceedSubtitle}>Proceed to end point</Text>
-              <TouchableOpacity style={styles.proceedButton} onPress={async () => {
-                if (!schedule || !token) return;
-                try {
-                  await updateScheduleStatus(schedule._id, 'completed', token);
-                  navigation.replace('RouteSummary', { scheduleId: schedule._id });
-                } catch (error) {
-                  console.error(error);
-                  Alert.alert('Error', 'Failed to complete schedule.');
-                }
-              }}>
+              <TouchableOpacity
+                style={[styles.proceedButton, finishing && styles.proceedButtonDisabled]}
+                onPress={finishRoute}
+                disabled={finishing}
+              >
                 <Text style={styles.proceedButtonText}>Finish Route</Text>
               </TouchableOpacity>
             </View>
@@ -702,6 +1590,15 @@ const CollectorRouteScreen = () => {
                       </View>
                     </View>
                     
+                    {!isBinForRun(currentBin, schedule.wasteType) && (
+                      <View style={styles.notForTruckBanner}>
+                        <MaterialCommunityIcons name="alert-circle-outline" size={18} color="#B45309" />
+                        <Text style={styles.notForTruckText}>
+                          Not for this truck - {formatWasteType(currentBin.wasteType)} bin on a {formatWasteType(schedule.wasteType)} run
+                        </Text>
+                      </View>
+                    )}
+                    
                     <View style={styles.currentStopDetails}>
                       <View style={styles.currentStopDetail}>
                         <Text style={styles.currentStopDetailLabel}>Fill Level:</Text>
@@ -734,14 +1631,79 @@ const CollectorRouteScreen = () => {
                       )}
                     </View>
                     
+                    {/* Proof-of-service photos */}
+                    <View style={styles.proofPhotos}>
+                      {(['before', 'after'] as const).map(kind => {
+                        const uri = stopPhotos[currentBin._id]?.[kind];
+                        return (
+                          <TouchableOpacity
+                            key={kind}
+                            style={styles.proofPhotoSlot}
+                            onPress={() => takeStopPhoto(currentBin._id, kind)}
+                          >
+                            {uri ? (
+                              <Image source={{ uri }} style={styles.proofPhotoImage} />
+                            ) : (
+                              <MaterialCommunityIcons name="camera-plus" size={22} color="#12805c" />
+                            )}
+                            <Text style={styles.proofPhotoLabel}>
+                              {kind === 'before' ? 'Before' : 'After'}
+                              {kind === 'after' && REQUIRE_PROOF_PHOTO ? ' *' : ''}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                    
+                    {/* Collected weight, estimated from the fill level unless entered */}
+                    <View style={styles.weightRow}>
+                      <MaterialCommunityIcons name="weight-kilogram" size={20} color="#12805c" />
+                      <TextInput
+                        style={styles.weightInput}
+                        value={weightInputs[currentBin._id] ?? ''}
+                        onChangeText={text => setWeightInputs(prev => ({ ...prev, [currentBin._id]: text }))}
+                        placeholder={`~${Math.round(getCollectedWeight(currentBin, binWeights).kg)} kg estimated`}
+                        keyboardType="decimal-pad"
+                        returnKeyType="done"
+                      />
+                      <Text style={styles.weightUnit}>kg</Text>
+                    </View>
+                    
                     {/* Mark as Collected Button */}
                     <TouchableOpacity 
                       style={styles.markCollectedButton}
-                      onPress={markBinCollected}
+                      onPress={() => markBinCollected()}
                     >
                       <MaterialCommunityIcons name="check" size={24} color="#ffffff" />
                       <Text style={styles.markCollectedButtonText}>Mark as Collected</Text>
                     </TouchableOpacity>
+                    
+                    {/* Exceptions: skip with a reason, or come back to this stop later */}
+                    <View style={styles.stopExceptionButtons}>
+                      <TouchableOpacity
+                        style={styles.stopExceptionButton}
+                        onPress={() => setSkipDialogVisible(true)}
+                      >
+                        <MaterialCommunityIcons name="debug-step-over" size={20} color="#B45309" />
+                        <Text style={styles.stopExceptionButtonText}>Skip</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.stopExceptionButton, !canDeferCurrentStop && styles.stopExceptionButtonDisabled]}
+                        onPress={deferCurrentStop}
+                        disabled={!canDeferCurrentStop}
+                      >
+                        <MaterialCommunityIcons name="clock-outline" size={20} color="#6366F1" />
+                        <Text style={styles.stopExceptionButtonText}>Do Later</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.stopExceptionButton, !canDeferCurrentStop && styles.stopExceptionButtonDisabled]}
+                        onPress={() => setReorderVisible(true)}
+                        disabled={!canDeferCurrentStop}
+                      >
+                        <MaterialCommunityIcons name="swap-vertical" size={20} color="#12805c" />
+                        <Text style={styles.stopExceptionButtonText}>Reorder</Text>
+                      </TouchableOpacity>
+                    </View>
                   </>
                 );
               })()}
@@ -751,23 +1713,49 @@ const CollectorRouteScreen = () => {
       ) : (
         /* Regular Stops List - Bottom section when not in active collection */
         <View style={styles.stopsContainer}>
+          {isAssignedToAnotherCollector && (
+            <View style={styles.assignmentWarning}>
+              <MaterialCommunityIcons name="account-alert" size={18} color="#B45309" />
+              <Text style={styles.assignmentWarningText}>
+                Assigned to {assignedCollector?.firstName} {assignedCollector?.lastName}
+              </Text>
+            </View>
+          )}
           <View style={styles.stopsHeader}>
             <Text style={styles.stopsTitle}>Collection Stops</Text>
             <Text style={styles.stopsSubtitle}>
-              {schedule.binSequence && Array.isArray(schedule.binSequence) ? schedule.binSequence.length : 0} bins total
+              {wasteTypeFilter
+                ? `${listedBins.length} of ${schedule.binSequence.length} bins`
+                : `${schedule.binSequence.length} bins total`}
             </Text>
           </View>
           
+          {wasteTypeProgress.length > 1 && (
+            <View style={styles.filterChips}>
+              {[null, ...wasteTypeProgress.map(group => group.wasteType)].map(type => (
+                <TouchableOpacity
+                  key={type ?? 'all'}
+                  style={[styles.filterChip, wasteTypeFilter === type && styles.filterChipSelected]}
+                  onPress={() => setWasteTypeFilter(type)}
+                >
+                  <Text style={[styles.filterChipText, wasteTypeFilter === type && styles.filterChipTextSelected]}>
+                    {type ? formatWasteType(type) : 'All'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          
           {/* Scrollable List of Stops */}
           <FlatList
-            data={Array.isArray(schedule.binSequence) ? 
-              // Filter out any string items, only pass bin objects to FlatList
-              schedule.binSequence.filter(item => typeof item !== 'string') as Bin[] : 
-              []
-            }
+            // Only bin objects can be listed; string IDs have no details to show
+            data={listedBins}
             keyExtractor={(item, index) => item._id || `stop-${index}`}
-            renderItem={({ item, index }) => {
+            renderItem={({ item }) => {
               const bin = item as Bin;
+              // Number stops by their place in the route, not in the filtered list
+              const index = (schedule.binSequence as (string | Bin)[]).indexOf(bin);
+              const notForTruck = !isBinForRun(bin, schedule.wasteType);
               
               return (
                 <TouchableOpacity 
@@ -801,11 +1789,12 @@ const CollectorRouteScreen = () => {
                     <View style={styles.stopDetailsRow}>
                       <Text style={styles.stopBinId}>Bin ID: {bin._id}</Text>
                       {bin.wasteType && (
-                      <View style={styles.wasteTypeContainer}>
-                        <Text style={styles.wasteTypeLabel}>{bin.wasteType}</Text>
+                      <View style={[styles.wasteTypeContainer, { backgroundColor: getWasteTypeColor(bin.wasteType) }]}>
+                        <Text style={styles.wasteTypeLabel}>{formatWasteType(bin.wasteType)}</Text>
                       </View>
                       )}
                     </View>
+                    {notForTruck && <Text style={styles.notForTruckLabel}>Not for this truck</Text>}
                     
                     <View style={styles.fillLevelContainer}>
                       <Text style={styles.fillLevelText}>Fill Level:</Text>
@@ -831,6 +1820,41 @@ const CollectorRouteScreen = () => {
         </View>
       )}
       
+      <SkipStopDialog
+        visible={skipDialogVisible}
+        stopNumber={currentStopIndex + 1}
+        onSubmit={skipCurrentStop}
+        onCancel={() => setSkipDialogVisible(false)}
+      />
+      
+      <PauseRouteDialog
+        visible={pauseDialogVisible}
+        onSubmit={pauseRoute}
+        onCancel={() => setPauseDialogVisible(false)}
+      />
+      
+      <AbandonRouteDialog
+        visible={abandonDialogVisible}
+        remainingStops={schedule.binSequence.length - resolvedStops.length}
+        onSubmit={abandonRoute}
+        onCancel={() => setAbandonDialogVisible(false)}
+      />
+
+      <RejectedChangesDialog
+        visible={rejectedDialogVisible}
+        mutations={rejectedForSchedule}
+        onRetry={retryRejected}
+        onDiscard={discardRejected}
+        onClose={() => setRejectedDialogVisible(false)}
+      />
+      
+      <ReorderStopsDialog
+        visible={reorderVisible}
+        stops={reorderVisible ? getOpenStops() : []}
+        onSubmit={applyStopOrder}
+        onCancel={() => setReorderVisible(false)}
+      />
+      
       {/* Start Collection Button (FAB) - Only shown when not in active collection */}
       {schedule.status === 'scheduled' && !activeCollection && (
         <TouchableOpacity 
@@ -918,6 +1942,23 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 5,
   },
+  cachedBadge: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 48 : 28,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.95)',
+    borderRadius: 14,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    elevation: 3,
+  },
+  cachedBadgeText: {
+    fontSize: 12,
+    color: '#555',
+    marginLeft: 4,
+  },
   mapControls: {
     position: 'absolute',
     top: Platform.OS === 'ios' ? 40 : 20,
@@ -938,6 +1979,70 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 5,
   },
+  arrivalPrompt: {
+    position: 'absolute',
+    bottom: 16,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 6,
+  },
+  arrivalPromptInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  arrivalPromptTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  arrivalPromptSubtitle: {
+    fontSize: 13,
+    color: '#666',
+  },
+  arrivalPromptButton: {
+    backgroundColor: '#12805c',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  arrivalPromptButtonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  arrivalPromptDismiss: {
+    padding: 4,
+    marginLeft: 6,
+  },
+  mapControlButtonDanger: {
+    backgroundColor: '#EF4444',
+  },
+  mapControlButtonActive: {
+    backgroundColor: '#2563EB',
+  },
+  truckMarkerContainer: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#2563EB',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 2,
+    elevation: 4,
+  },
   startMarkerContainer: {
     width: 30,
     height: 30,
@@ -1033,6 +2138,106 @@ const styles = StyleSheet.create({
     backgroundColor: '#12805c',
     borderRadius: 4,
   },
+  wasteTypeProgressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  wasteTypeProgressLabel: {
+    width: 70,
+    fontSize: 12,
+    color: '#666',
+  },
+  wasteTypeProgressBar: {
+    flex: 1,
+    height: 6,
+    backgroundColor: '#EEEEEE',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  wasteTypeProgressCount: {
+    width: 40,
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'right',
+  },
+  notForTruckBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 10,
+  },
+  notForTruckText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#B45309',
+    marginLeft: 6,
+  },
+  notForTruckLabel: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#B45309',
+    marginBottom: 4,
+  },
+  dumpTripContent: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  truckLoadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  truckLoadText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#666',
+    marginLeft: 4,
+  },
+  dumpTripButton: {
+    backgroundColor: '#B45309',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  dumpTripButtonText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  routeProgressRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  routeProgressText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#666',
+  },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    marginTop: 8,
+  },
+  syncText: {
+    fontSize: 12,
+    color: '#B45309',
+    marginLeft: 6,
+  },
+  syncBannerRejected: {
+    backgroundColor: '#FEE2E2',
+  },
+  syncTextRejected: {
+    color: '#B91C1C',
+  },
   currentStopCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
@@ -1126,6 +2331,112 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginLeft: 8,
   },
+  weightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  weightInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginHorizontal: 8,
+    fontSize: 16,
+  },
+  weightUnit: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#666',
+  },
+  proofPhotos: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  proofPhotoSlot: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#12805c',
+    borderRadius: 8,
+    padding: 6,
+    marginRight: 10,
+  },
+  proofPhotoImage: {
+    width: 36,
+    height: 36,
+    borderRadius: 4,
+  },
+  proofPhotoLabel: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 6,
+  },
+  stopExceptionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stopExceptionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginHorizontal: 4,
+  },
+  stopExceptionButtonDisabled: {
+    opacity: 0.4,
+  },
+  stopExceptionButtonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 6,
+  },
+  assignmentWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 10,
+  },
+  assignmentWarningText: {
+    fontSize: 13,
+    color: '#B45309',
+    marginLeft: 6,
+  },
+  filterChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  filterChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#12805c',
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  filterChipSelected: {
+    backgroundColor: '#12805c',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#12805c',
+  },
+  filterChipTextSelected: {
+    color: '#FFFFFF',
+  },
   stopsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1325,6 +2636,9 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 5,
   },
+  proceedButtonDisabled: {
+    opacity: 0.6,
+  },
   proceedButtonText: {
     color: '#FFFFFF',
     fontWeight: 'bold',
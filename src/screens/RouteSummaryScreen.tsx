@@ -1,10 +1,20 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, Alert } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { format } from 'date-fns';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { getScheduleById, type Schedule } from '../services/api';
+import { cacheKeys, fetchWithCache } from '../services/cache';
+import { shareRouteReport, type ReportFormat } from '../services/reportExport';
 import { RootStackParamList } from '../navigation/types';
+import { SKIP_REASONS } from '../components/SkipStopDialog';
+import { PAUSE_REASONS } from '../components/PauseRouteDialog';
+import { ABANDON_REASONS } from '../components/AbandonRouteDialog';
+import RouteReplayMap from '../components/RouteReplayMap';
+import { fromGeoJson, type LatLng } from '../utils/geo';
+import { buildRouteReport, OUTCOME_LABELS } from '../utils/routeReport';
+import { formatWasteType, isBinForRun } from '../utils/wasteTypes';
 import { useCollectorAuth } from '../context/CollectorAuthContext';
 
 type RouteSummaryNavigationProp = StackNavigationProp<RootStackParamList, 'RouteSummary'>;
@@ -14,21 +24,21 @@ const RouteSummaryScreen = () => {
   const navigation = useNavigation<RouteSummaryNavigationProp>();
   const route = useRoute<RouteSummaryRouteProp>();
   const { scheduleId } = route.params;
-  const { token } = useCollectorAuth();
+  const { isSignedIn } = useCollectorAuth();
 
   const [loading, setLoading] = useState(true);
   const [summary, setSummary] = useState<Schedule | null>(null);
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
 
   useEffect(() => {
     const load = async () => {
       try {
         setLoading(true);
-        // Handle the case where token might be null
-        if (!token) {
-          console.error("No authentication token available");
+        if (!isSignedIn) {
+          console.error("No collector is signed in");
           return;
         }
-        const data = await getScheduleById(scheduleId, token);
+        const { data } = await fetchWithCache(cacheKeys.schedule(scheduleId), () => getScheduleById(scheduleId));
         setSummary(data);
       } catch (e) {
         console.error(e);
@@ -37,7 +47,7 @@ const RouteSummaryScreen = () => {
       }
     };
     load();
-  }, [scheduleId, token]);
+  }, [scheduleId, isSignedIn]);
 
   if (loading || !summary) {
     return (
@@ -48,14 +58,31 @@ const RouteSummaryScreen = () => {
     );
   }
 
-  const { binSequence, distance, duration, actualStartTime, actualEndTime } = summary;
-  const collected = Array.isArray(binSequence) ? binSequence.length : 0;
-  const expectedMins = duration; // assume duration in minutes
-  const start = actualStartTime ? new Date(actualStartTime as string) : undefined;
-  const end = actualEndTime ? new Date(actualEndTime as string) : undefined;
-  const actualMins = start && end ? Math.round((end.getTime() - start.getTime()) / 60000) : 0;
-  const efficiency = expectedMins && actualMins ? Math.round((expectedMins / actualMins) * 100) : 0;
-  
+  const report = buildRouteReport(summary);
+  const { binSequence, breaks = [], cancellation } = summary;
+  const { efficiency, start, end } = report;
+  const abandonReason = ABANDON_REASONS.find(item => item.id === cancellation?.reason);
+  const visitedStops = binSequence.length - report.handedBackCount;
+  // "~" marks totals that include estimated weights
+  const formatWeight = (kg: number, estimated: boolean) =>
+    `${estimated ? '~' : ''}${kg >= 1000 ? `${(kg / 1000).toFixed(2)} t` : `${Math.round(kg)} kg`}`;
+  const largestFillBucket = Math.max(1, ...report.fillLevels.map(bucket => bucket.count));
+  const replayTrack = summary.actualRoute ?? [];
+  const replayStops = report.timeline
+    .filter((entry): entry is typeof entry & { location: LatLng } => !!entry.location)
+    .map(entry => ({ binId: entry.binId, stopNumber: entry.stopNumber, outcome: entry.outcome, ...entry.location }));
+
+  const handleShareReport = async (reportFormat: ReportFormat) => {
+    try {
+      setExporting(reportFormat);
+      await shareRouteReport(summary, reportFormat);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to create the report. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   // Determine efficiency color based on percentage
   const getEfficiencyColor = () => {
     if (efficiency >= 100) return '#12805c'; // Green for excellent efficiency
@@ -65,21 +92,100 @@ const RouteSummaryScreen = () => {
 
   return (
     <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
       <Text style={styles.header}>Route Summary</Text>
       
+      {/* Ended Early Card */}
+      {cancellation && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.cardTitle, styles.cardTitleWarning]}>Ended Early</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Reason:</Text>
+            <Text style={styles.value}>{abandonReason?.name ?? cancellation.reason}</Text>
+          </View>
+          {cancellation.note && <Text style={styles.note}>{cancellation.note}</Text>}
+          <View style={styles.row}>
+            <Text style={styles.label}>Ended At:</Text>
+            <Text style={styles.value}>{format(new Date(cancellation.cancelledAt), 'h:mm a')}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Stops Visited:</Text>
+            <Text style={styles.value}>
+              {visitedStops} of {binSequence.length} ({Math.round((visitedStops / (binSequence.length || 1)) * 100)}%)
+            </Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Handed Back to Dispatch:</Text>
+            <Text style={styles.value}>{report.handedBackCount}</Text>
+          </View>
+        </View>
+      )}
+      
       {/* Summary Card */}
       <View style={styles.card}>
         <View style={styles.cardHeader}>
           <Text style={styles.cardTitle}>Collection Stats</Text>
         </View>
-        <View style={styles.row}><Text style={styles.label}>Bins Collected:</Text><Text style={styles.value}>{collected}</Text></View>
-        <View style={styles.row}><Text style={styles.label}>Distance:</Text><Text style={styles.value}>{distance.toFixed(1)} km</Text></View>
+        <View style={styles.row}><Text style={styles.label}>Bins Collected:</Text><Text style={styles.value}>{report.collectedCount}</Text></View>
+        <View style={styles.row}><Text style={styles.label}>Bins Skipped:</Text><Text style={styles.value}>{report.skippedCount}</Text></View>
+        {report.byWasteType.length > 0 && (
+          <View style={styles.row}><Text style={styles.label}>Weight Collected:</Text><Text style={styles.value}>{formatWeight(report.totalWeightKg, report.totalWeightEstimated)}</Text></View>
+        )}
+        <View style={styles.row}><Text style={styles.label}>Planned Distance:</Text><Text style={styles.value}>{report.plannedDistanceKm.toFixed(1)} km</Text></View>
+        {report.actualDistanceKm !== null && (
+          <View style={styles.row}><Text style={styles.label}>Actual Distance:</Text><Text style={styles.value}>{report.actualDistanceKm.toFixed(1)} km</Text></View>
+        )}
 
-        <View style={styles.row}><Text style={styles.label}>Duration:</Text><Text style={styles.value}>{actualMins} min</Text></View>
+        <View style={styles.row}><Text style={styles.label}>Duration:</Text><Text style={styles.value}>{report.workingMinutes} min</Text></View>
         <View style={styles.row}><Text style={styles.label}>Start Time:</Text><Text style={styles.value}>{start ? format(start, 'h:mm a') : '-'}</Text></View>
         <View style={styles.row}><Text style={styles.label}>End Time:</Text><Text style={styles.value}>{end ? format(end, 'h:mm a') : '-'}</Text></View>
       </View>
       
+      {/* Time Breakdown Card */}
+      {start && end && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Where the Time Went</Text>
+          </View>
+          {report.actualDistanceKm !== null && (
+            <View style={styles.row}><Text style={styles.label}>Driving:</Text><Text style={styles.value}>{report.drivingMinutes} min</Text></View>
+          )}
+          <View style={styles.row}><Text style={styles.label}>At Stops:</Text><Text style={styles.value}>{report.stopMinutes} min</Text></View>
+          {report.actualDistanceKm !== null && (
+            <View style={styles.row}><Text style={styles.label}>Idle:</Text><Text style={styles.value}>{report.idleMinutes} min</Text></View>
+          )}
+          {breaks.length > 0 && (
+            <View style={styles.row}><Text style={styles.label}>Breaks:</Text><Text style={styles.value}>{report.breakMinutes} min</Text></View>
+          )}
+          <View style={styles.row}>
+            <Text style={styles.label}>Average per Stop:</Text>
+            <Text style={styles.value}>{report.averageStopMinutes.toFixed(1)} min</Text>
+          </View>
+        </View>
+      )}
+      
+      {/* Waste Type Card */}
+      {report.byWasteType.length > 0 && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Collected by Waste Type</Text>
+          </View>
+          {report.byWasteType.map(group => (
+            <View key={group.wasteType} style={styles.row}>
+              <Text style={styles.label}>
+                {formatWasteType(group.wasteType)}
+                {isBinForRun({ wasteType: group.wasteType }, summary.wasteType) ? '' : ' (not for this truck)'}:
+              </Text>
+              <Text style={styles.value}>
+                {group.count} bin{group.count === 1 ? '' : 's'} - {formatWeight(group.weightKg, group.estimated)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Efficiency Card */}
       <View style={styles.card}>
         <View style={styles.cardHeader}>
@@ -111,6 +217,137 @@ const RouteSummaryScreen = () => {
         </View>
       </View>
 
+      {/* Fill Level Card */}
+      {report.timeline.length > 0 && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Fill Levels</Text>
+          </View>
+          {report.fillLevels.map(bucket => (
+            <View key={bucket.label} style={styles.fillLevelRow}>
+              <Text style={styles.fillLevelLabel}>{bucket.label}</Text>
+              <View style={styles.fillLevelBar}>
+                <View style={[styles.fillLevelFill, { width: `${(bucket.count / largestFillBucket) * 100}%` }]} />
+              </View>
+              <Text style={styles.fillLevelCount}>{bucket.count}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Route Replay Card */}
+      {replayTrack.length > 1 && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Route Replay</Text>
+          </View>
+          <RouteReplayMap
+            track={replayTrack}
+            plannedRoute={(summary.route || []).map(fromGeoJson)}
+            stops={replayStops}
+          />
+        </View>
+      )}
+
+      {/* Stop Timeline Card */}
+      {report.timeline.length > 0 && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Stop Timeline</Text>
+          </View>
+          {report.timeline.map((entry, index) => {
+            const outcome = OUTCOME_LABELS[entry.outcome];
+            const skipReason = SKIP_REASONS.find(reason => reason.id === entry.skipReason);
+            const times = [
+              entry.arrivedAt && `Arrived ${format(entry.arrivedAt, 'h:mm a')}`,
+              entry.resolvedAt && `${outcome.label} ${format(entry.resolvedAt, 'h:mm a')}`,
+              entry.minutesAtStop !== undefined && `${entry.minutesAtStop.toFixed(1)} min at stop`,
+            ].filter(Boolean);
+            return (
+              <View key={entry.binId} style={styles.timelineRow}>
+                <View style={styles.timelineRail}>
+                  <View style={[styles.timelineDot, { backgroundColor: outcome.color }]} />
+                  {index < report.timeline.length - 1 && <View style={styles.timelineLine} />}
+                </View>
+                <View style={styles.timelineContent}>
+                  <View style={styles.timelineHeader}>
+                    <Text style={styles.timelineTitle}>
+                      Stop {entry.stopNumber} - {formatWasteType(entry.wasteType)}
+                    </Text>
+                    <Text style={[styles.timelineOutcome, { color: outcome.color }]}>
+                      {entry.outcome === 'skipped' && skipReason ? `Skipped: ${skipReason.name}` : outcome.label}
+                    </Text>
+                  </View>
+                  {entry.address && <Text style={styles.timelineDetail}>{entry.address}</Text>}
+                  {times.length > 0 && <Text style={styles.timelineDetail}>{times.join(' - ')}</Text>}
+                  {entry.weight && (
+                    <Text style={styles.timelineDetail}>
+                      {formatWeight(entry.weight.kg, entry.weight.estimated)}
+                      {entry.fillLevel !== undefined ? ` at ${entry.fillLevel}% full` : ''}
+                    </Text>
+                  )}
+                  {entry.note && <Text style={styles.timelineNote}>{entry.note}</Text>}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Breaks Card */}
+      {breaks.length > 0 && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Breaks</Text>
+          </View>
+          {breaks.map(shiftBreak => {
+            const started = new Date(shiftBreak.startedAt);
+            const ended = shiftBreak.endedAt ? new Date(shiftBreak.endedAt) : undefined;
+            const reason = PAUSE_REASONS.find(item => item.id === shiftBreak.reason);
+            return (
+              <View key={shiftBreak.startedAt} style={styles.row}>
+                <Text style={styles.label}>
+                  {reason?.name ?? shiftBreak.reason} ({format(started, 'h:mm a')}
+                  {ended ? ` - ${format(ended, 'h:mm a')}` : ''})
+                </Text>
+                <Text style={styles.value}>
+                  {ended ? `${Math.round((ended.getTime() - started.getTime()) / 60000)} min` : '-'}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Share Report Card */}
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>Share Report</Text>
+        </View>
+        <View style={styles.shareButtons}>
+          {(['pdf', 'csv'] as ReportFormat[]).map(reportFormat => (
+            <TouchableOpacity
+              key={reportFormat}
+              style={styles.shareButton}
+              onPress={() => handleShareReport(reportFormat)}
+              disabled={exporting !== null}
+            >
+              {exporting === reportFormat ? (
+                <ActivityIndicator size="small" color="#12805c" />
+              ) : (
+                <MaterialCommunityIcons
+                  name={reportFormat === 'pdf' ? 'file-pdf-box' : 'file-delimited-outline'}
+                  size={20}
+                  color="#12805c"
+                />
+              )}
+              <Text style={styles.shareButtonText}>{reportFormat.toUpperCase()}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+      </ScrollView>
+
       <TouchableOpacity style={styles.button} onPress={() => navigation.navigate('CollectorMain')}>
         <Text style={styles.buttonText}>Back to Home</Text>
       </TouchableOpacity>
@@ -124,6 +361,9 @@ const styles = StyleSheet.create({
     padding: 16, 
     backgroundColor: '#f5f5f5' 
   },
+  scrollContent: {
+    paddingBottom: 90,
+  },
   header: { 
     fontSize: 26, 
     fontWeight: 'bold', 
@@ -154,6 +394,92 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#12805c'
   },
+  cardTitleWarning: {
+    color: '#B45309'
+  },
+  note: {
+    fontSize: 14,
+    color: '#555',
+    fontStyle: 'italic',
+    paddingVertical: 6
+  },
+  fillLevelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6
+  },
+  fillLevelLabel: {
+    width: 70,
+    fontSize: 14,
+    color: '#555'
+  },
+  fillLevelBar: {
+    flex: 1,
+    height: 10,
+    backgroundColor: '#eee',
+    borderRadius: 5,
+    overflow: 'hidden'
+  },
+  fillLevelFill: {
+    height: '100%',
+    backgroundColor: '#12805c',
+    borderRadius: 5
+  },
+  fillLevelCount: {
+    width: 36,
+    textAlign: 'right',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333'
+  },
+  timelineRow: {
+    flexDirection: 'row'
+  },
+  timelineRail: {
+    width: 20,
+    alignItems: 'center'
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 4
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e0e0e0',
+    marginVertical: 2
+  },
+  timelineContent: {
+    flex: 1,
+    paddingLeft: 8,
+    paddingBottom: 14
+  },
+  timelineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between'
+  },
+  timelineTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333'
+  },
+  timelineOutcome: {
+    fontSize: 13,
+    fontWeight: '600'
+  },
+  timelineDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2
+  },
+  timelineNote: {
+    fontSize: 13,
+    color: '#555',
+    fontStyle: 'italic',
+    marginTop: 2
+  },
   row: { 
     flexDirection: 'row', 
     justifyContent: 'space-between', 
@@ -203,6 +529,26 @@ const styles = StyleSheet.create({
     color: '#555',
     fontStyle: 'italic'
   },
+  shareButtons: {
+    flexDirection: 'row',
+  },
+  shareButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#12805c',
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginHorizontal: 4,
+  },
+  shareButtonText: {
+    color: '#12805c',
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   button: { 
     position: 'absolute',
     bottom: 20,
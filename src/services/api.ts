@@ -1,10 +1,4 @@
-import axios from 'axios';
-
-// Replace with your computer's IP address on your network
-// Using localhost doesn't work when testing on physical devices
-const API_IP = '192.168.8.108'; // Your computer's IP address on the Wi-Fi network
-const API_PORT = '5000';
-const API_BASE = `http://${API_IP}:${API_PORT}/api`;
+import { apiClient } from './apiClient';
 
 // API is live, no longer using mock data
 const USE_MOCK_DATA = false;
@@ -17,10 +11,103 @@ interface Bin {
     coordinates: [number, number];
   };
   fillLevel: number;
+  capacity?: number; // Weight of waste when full, in kg
   address?: string;
   wasteType?: string;
 }
 
+interface Collector {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  username?: string;
+  area?: {
+    _id: string;
+    name: string;
+  };
+  vehicle?: {
+    _id?: string;
+    registrationNumber?: string;
+    type?: string;
+    capacity?: number; // Load capacity in kg
+  };
+}
+
+// A GPS fix recorded while a route is being driven
+interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  speed?: number | null; // m/s
+  accuracy?: number | null; // meters
+}
+
+// When the truck arrived at and left a stop, detected on the device by geofencing
+interface StopVisit {
+  binId: string;
+  arrivedAt?: string;
+  departedAt?: string;
+}
+
+type ScheduleStatus = 'scheduled' | 'in-progress' | 'paused' | 'completed' | 'cancelled';
+
+// Why a running route was paused
+type PauseReason = 'break' | 'refuel' | 'truck-swap' | 'other';
+
+// Time a running route spent paused; endedAt is unset while the pause is still going on
+interface ShiftBreak {
+  reason: PauseReason;
+  note?: string;
+  startedAt: string;
+  endedAt?: string;
+}
+
+// A trip to the disposal site to empty the truck part-way through a route
+interface DumpTrip {
+  startedAt: string;
+  completedAt: string;
+  loadKg: number; // Estimated load emptied
+}
+
+// Photos taken at a stop as evidence that the bin was emptied
+interface ProofPhotos {
+  before?: string;
+  after?: string;
+}
+
+// Why a route was abandoned before every stop was visited
+type AbandonReason = 'breakdown' | 'accident' | 'weather' | 'illness' | 'other';
+
+// How a route ended early; the remaining bins go back to dispatch to be reassigned
+interface Cancellation {
+  reason: AbandonReason;
+  note?: string;
+  cancelledAt: string;
+  remainingBins: string[];
+}
+
+// Weight of waste taken from a bin, weighed or estimated from its fill level
+interface CollectedWeight {
+  kg: number;
+  estimated: boolean;
+}
+
+// Why a stop could not be collected
+type SkipReason = 'blocked' | 'inaccessible' | 'damaged' | 'already-empty';
+
+// Why the collector changed the order of the remaining stops
+// 'optimized' is used when the order came from the on-device optimizer
+type ResequenceReason = 'road-closed' | 'traffic' | 'access' | 'optimized' | 'other';
+
+// A stop the collector reported as not collected, with optional evidence
+interface SkippedBin {
+  binId: string;
+  reason: SkipReason;
+  note?: string;
+  photoUrl?: string;
+  skippedAt?: string;
+}
+
 interface Schedule {
   _id: string;
   name: string;
@@ -48,15 +135,25 @@ interface Schedule {
   date: string;
   startTime?: string;
   endTime?: string;
-  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  status: ScheduleStatus;
   route: Array<[number, number]>;
   distance: number;
   duration: number;
   binSequence: string[] | Bin[]; // Can be either bin IDs or populated bin objects
+  wasteType?: string; // Set for segregated runs that collect a single waste stream
   actualStartTime?: string;
   actualEndTime?: string;
   notes?: string;
   completedBins?: string[]; // Add the completedBins property to the interface
+  binPhotos?: Record<string, ProofPhotos>; // Proof-of-service photo URLs, keyed by bin ID
+  binWeights?: Record<string, CollectedWeight>; // Collected weights, keyed by bin ID
+  binCollectedAt?: Record<string, string>; // When each bin was marked collected, keyed by bin ID
+  actualRoute?: TrackPoint[]; // Path actually driven, uploaded from the device
+  stopVisits?: StopVisit[];
+  skippedBins?: SkippedBin[];
+  dumpTrips?: DumpTrip[];
+  breaks?: ShiftBreak[];
+  cancellation?: Cancellation;
 }
 
 interface AreaData {
@@ -80,7 +177,7 @@ interface AreaData {
 // Bin operations for resident app
 export const getBinsNearby = async (latitude: number, longitude: number, radius: number): Promise<Bin[]> => {
   try {
-    const response = await axios.get(`${API_BASE}/resident/bins/nearby`, {
+    const response = await apiClient.get('/resident/bins/nearby', {
       params: {
         latitude,
         longitude,
@@ -103,7 +200,7 @@ export const getBinsNearby = async (latitude: number, longitude: number, radius:
 // Get detailed information about a specific bin
 export const getBinDetails = async (binId: string): Promise<Bin | null> => {
   try {
-    const response = await axios.get(`${API_BASE}/resident/bins/${binId}`);
+    const response = await apiClient.get(`/resident/bins/${binId}`);
     return response.data.bin;
   } catch (error) {
     console.error(`API: Failed to fetch bin details for ${binId}:`, error);
@@ -127,7 +224,7 @@ export const submitBinSuggestion = async (
         latitude: location.latitude
       }
     };
-    const response = await axios.post(`${API_BASE}/bin-suggestions`, payload);
+    const response = await apiClient.post('/bin-suggestions', payload);
 
     console.log('API: Bin suggestion submitted successfully');
     return response.data;
@@ -138,12 +235,11 @@ export const submitBinSuggestion = async (
 };
 
 // Collector API Operations
-export const getCollectorArea = async (token: string): Promise<AreaData> => {
+// The bearer token is attached by the shared client's auth interceptor
+export const getCollectorArea = async (): Promise<AreaData> => {
   console.log('API: Fetching collector area data');
   try {
-    const response = await axios.get(`${API_BASE}/collector/area`, {
-      headers: { Authorization: `Bearer ${token}` }
-    });
+    const response = await apiClient.get('/collector/area');
 
     const areaData = response.data;
     console.log('API: Area data received', {
@@ -158,7 +254,7 @@ export const getCollectorArea = async (token: string): Promise<AreaData> => {
   }
 };
 
-export const getCollectorSchedules = async (token: string, params?: { 
+export const getCollectorSchedules = async (params?: { 
   fromDate?: string; 
   toDate?: string;
   status?: string;
@@ -177,8 +273,7 @@ export const getCollectorSchedules = async (token: string, params?: {
   try {
     // Use the collector-specific endpoint instead of the general schedules endpoint
     // This ensures only schedules assigned to the authenticated collector are returned
-    const response = await axios.get(`${API_BASE}/collector/schedules`, {
-      headers: { Authorization: `Bearer ${token}` },
+    const response = await apiClient.get('/collector/schedules', {
       params: params
     });
     
@@ -190,12 +285,10 @@ export const getCollectorSchedules = async (token: string, params?: {
   }
 };
 
-export const getScheduleById = async (scheduleId: string, token: string): Promise<Schedule> => {
+export const getScheduleById = async (scheduleId: string): Promise<Schedule> => {
   console.log(`API: Fetching schedule details for ${scheduleId}`);
   try {
-    const response = await axios.get(`${API_BASE}/schedules/${scheduleId}?populateBins=true`, {
-      headers: { Authorization: `Bearer ${token}` }
-    });
+    const response = await apiClient.get(`/schedules/${scheduleId}?populateBins=true`);
     
     console.log('API: Schedule details received');
     return response.data;
@@ -205,18 +298,20 @@ export const getScheduleById = async (scheduleId: string, token: string): Promis
   }
 };
 
+// occurredAt carries the device time of the change, so replayed offline updates keep their real time
+// Pausing sends the reason too; the server closes the break when the route goes back to in-progress
 export const updateScheduleStatus = async (
   scheduleId: string, 
-  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled', 
-  token: string
+  status: ScheduleStatus, 
+  details: { reason?: PauseReason; note?: string } = {},
+  occurredAt?: string
 ): Promise<Schedule> => {
   console.log(`API: Updating schedule ${scheduleId} status to ${status}`);
   try {
     // Use the collector-specific endpoint for updating schedule status
-    const response = await axios.put(
-      `${API_BASE}/collector/schedules/${scheduleId}/status`, 
-      { status }, 
-      { headers: { Authorization: `Bearer ${token}` } }
+    const response = await apiClient.put(
+      `/collector/schedules/${scheduleId}/status`, 
+      { status, reason: details.reason, note: details.note, occurredAt }
     );
     
     console.log('API: Schedule status updated successfully');
@@ -227,17 +322,25 @@ export const updateScheduleStatus = async (
   }
 };
 
+// Proof-of-service photos are sent as the URLs returned by uploadImage
 export const updateScheduleBinCollected = async (
   scheduleId: string,
   binId: string,
-  token: string
+  details: { arrivedAt?: string; photos?: ProofPhotos; weight?: CollectedWeight } = {},
+  occurredAt?: string
 ): Promise<Schedule> => {
   console.log(`API: Marking bin ${binId} as collected in schedule ${scheduleId}`);
   try {
-    const response = await axios.post(
-      `${API_BASE}/schedules/${scheduleId}/collect-bin`,
-      { binId },
-      { headers: { Authorization: `Bearer ${token}` } }
+    const response = await apiClient.post(
+      `/schedules/${scheduleId}/collect-bin`,
+      {
+        binId,
+        occurredAt,
+        arrivedAt: details.arrivedAt,
+        photos: details.photos ?? {},
+        weightKg: details.weight?.kg,
+        weightEstimated: details.weight?.estimated,
+      }
     );
     
     console.log('API: Bin marked as collected successfully');
@@ -248,8 +351,180 @@ export const updateScheduleBinCollected = async (
   }
 };
 
+// Report a stop that could not be collected, with the URL of a photo returned by uploadImage
+export const updateScheduleBinSkipped = async (
+  scheduleId: string,
+  binId: string,
+  reason: SkipReason,
+  details: { note?: string; photoUrl?: string; arrivedAt?: string } = {},
+  occurredAt?: string
+): Promise<Schedule> => {
+  console.log(`API: Marking bin ${binId} as skipped (${reason}) in schedule ${scheduleId}`);
+  try {
+    const response = await apiClient.post(
+      `/schedules/${scheduleId}/skip-bin`,
+      { binId, reason, note: details.note, photoUrl: details.photoUrl, arrivedAt: details.arrivedAt, occurredAt }
+    );
+    
+    console.log('API: Bin marked as skipped successfully');
+    return response.data;
+  } catch (error) {
+    console.error('API: Failed to mark bin as skipped:', error);
+    throw error;
+  }
+};
+
+// Replace the stop order of a running schedule; the reason is kept in the schedule's audit trail
+export const updateScheduleBinSequence = async (
+  scheduleId: string,
+  binIds: string[],
+  reason: ResequenceReason,
+  note?: string,
+  occurredAt?: string
+): Promise<Schedule> => {
+  console.log(`API: Updating stop order of schedule ${scheduleId} (${reason})`);
+  try {
+    const response = await apiClient.put(
+      `/collector/schedules/${scheduleId}/sequence`,
+      { binSequence: binIds, reason, note, occurredAt }
+    );
+    
+    console.log('API: Stop order updated successfully');
+    return response.data;
+  } catch (error) {
+    console.error('API: Failed to update stop order:', error);
+    throw error;
+  }
+};
+
+// Record that the truck was emptied at the disposal site
+export const recordDumpTrip = async (scheduleId: string, trip: DumpTrip): Promise<Schedule> => {
+  console.log(`API: Recording dump trip for schedule ${scheduleId}`);
+  try {
+    const response = await apiClient.post(
+      `/collector/schedules/${scheduleId}/dump-trips`,
+      trip
+    );
+    
+    console.log('API: Dump trip recorded successfully');
+    return response.data;
+  } catch (error) {
+    console.error('API: Failed to record dump trip:', error);
+    throw error;
+  }
+};
+
+// End a running route early and hand the stops not yet visited back to dispatch
+export const abandonSchedule = async (
+  scheduleId: string,
+  reason: AbandonReason,
+  remainingBins: string[],
+  note?: string,
+  occurredAt?: string
+): Promise<Schedule> => {
+  console.log(`API: Abandoning schedule ${scheduleId} (${reason}) with ${remainingBins.length} bins remaining`);
+  try {
+    const response = await apiClient.post(
+      `/collector/schedules/${scheduleId}/abandon`,
+      { reason, note, remainingBins, occurredAt }
+    );
+    
+    console.log('API: Schedule abandoned successfully');
+    return response.data;
+  } catch (error) {
+    console.error('API: Failed to abandon schedule:', error);
+    throw error;
+  }
+};
+
+// Append GPS points to the path actually driven for a schedule
+export const uploadScheduleTrack = async (
+  scheduleId: string,
+  points: TrackPoint[],
+  occurredAt?: string
+): Promise<Schedule> => {
+  console.log(`API: Uploading ${points.length} track points for schedule ${scheduleId}`);
+  try {
+    const response = await apiClient.post(
+      `/collector/schedules/${scheduleId}/track`,
+      { points, occurredAt }
+    );
+    
+    console.log('API: Track points uploaded successfully');
+    return response.data;
+  } catch (error) {
+    console.error('API: Failed to upload track points:', error);
+    throw error;
+  }
+};
+
+// Record when the truck arrived at and left a stop
+export const recordStopVisit = async (
+  scheduleId: string,
+  visit: StopVisit
+): Promise<Schedule> => {
+  console.log(`API: Recording visit to bin ${visit.binId} in schedule ${scheduleId}`);
+  try {
+    const response = await apiClient.post(
+      `/collector/schedules/${scheduleId}/stop-visits`,
+      visit
+    );
+    
+    console.log('API: Stop visit recorded successfully');
+    return response.data;
+  } catch (error) {
+    console.error('API: Failed to record stop visit:', error);
+    throw error;
+  }
+};
+
+// Profile of the signed-in collector
+export const getCurrentCollector = async (): Promise<Collector> => {
+  console.log('API: Fetching collector profile');
+  try {
+    const response = await apiClient.get('/collector/me');
+    console.log('API: Collector profile received');
+    return response.data;
+  } catch (error) {
+    console.error('API: Failed to fetch collector profile:', error);
+    throw error;
+  }
+};
+
 // Export types for use in other files
-export type { Bin, Schedule, AreaData };
+export type { AbandonReason, Bin, Cancellation, CollectedWeight, Collector, DumpTrip, PauseReason, ProofPhotos, ResequenceReason, Schedule, ScheduleStatus, ShiftBreak, SkipReason, SkippedBin, StopVisit, TrackPoint, AreaData };
+
+// Upload a local image and return the URL the server stored it at
+export const uploadImage = async (imageUri: string): Promise<string> => {
+  // Create a form data object to send the image
+  const formData = new FormData();
+  
+  // Extract just the filename from the full path
+  const filename = imageUri.split('/').pop() || 'image.jpg';
+  
+  // Append the image file to form data
+  const fileType = filename.endsWith('.png') ? 'image/png' : 'image/jpeg';
+  
+  // @ts-ignore - TypeScript might complain about this format but it works with React Native
+  formData.append('image', {
+    uri: imageUri,
+    name: filename,
+    type: fileType
+  });
+  
+  // Upload the image - fixing the endpoint URL
+  const uploadResponse = await apiClient.post(
+    '/issues/uploads/images', 
+    formData, 
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    }
+  );
+  
+  return uploadResponse.data.imageUrl;
+};
 
 // Issue reporting API
 export const submitIssue = async (description: string, images: string[]): Promise<any> => {
@@ -259,35 +534,7 @@ export const submitIssue = async (description: string, images: string[]): Promis
     const uploadedImageUrls: string[] = [];
     
     for (const imageUri of images) {
-      // Create a form data object to send the image
-      const formData = new FormData();
-      
-      // Extract just the filename from the full path
-      const filename = imageUri.split('/').pop() || 'image.jpg';
-      
-      // Append the image file to form data
-      const fileType = filename.endsWith('.png') ? 'image/png' : 'image/jpeg';
-      
-      // @ts-ignore - TypeScript might complain about this format but it works with React Native
-      formData.append('image', {
-        uri: imageUri,
-        name: filename,
-        type: fileType
-      });
-      
-      // Upload the image - fixing the endpoint URL
-      const uploadResponse = await axios.post(
-        `${API_BASE}/issues/uploads/images`, 
-        formData, 
-        {
-          headers: {
-            'Content-Type': 'multipart/form-data',
-          },
-        }
-      );
-      
-      // Add the returned image URL to our array
-      uploadedImageUrls.push(uploadResponse.data.imageUrl);
+      uploadedImageUrls.push(await uploadImage(imageUri));
     }
     
     // Now submit the issue with the uploaded image URLs
@@ -296,7 +543,7 @@ export const submitIssue = async (description: string, images: string[]): Promis
       images: uploadedImageUrls  // These should be URLs that your server can access
     };
     
-    const response = await axios.post(`${API_BASE}/issues`, payload);
+    const response = await apiClient.post('/issues', payload);
     
     console.log('API: Issue reported successfully');
     return response.data;
@@ -0,0 +1,153 @@
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+
+// Backend environments. Base URLs come from `expo.extra.api.profiles` in app.json,
+// and can be overridden on a device from the hidden API settings screen.
+type ApiProfile = 'dev' | 'staging' | 'prod';
+
+interface ApiSettings {
+  profile: ApiProfile;
+  customBaseUrl?: string;
+}
+
+const API_SETTINGS_KEY = '@api_settings';
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Used when app.json doesn't define a profile, e.g. a backend on the developer's machine
+const FALLBACK_BASE_URL = 'http://localhost:5000/api';
+
+const extraApiConfig = (Constants.expoConfig?.extra?.api ?? {}) as {
+  profile?: ApiProfile;
+  profiles?: Partial<Record<ApiProfile, string>>;
+};
+
+export const API_PROFILES: ApiProfile[] = ['dev', 'staging', 'prod'];
+
+export const getProfileBaseUrl = (profile: ApiProfile): string =>
+  extraApiConfig.profiles?.[profile] || FALLBACK_BASE_URL;
+
+const defaultSettings: ApiSettings = {
+  profile: extraApiConfig.profile ?? 'dev',
+};
+
+let currentSettings: ApiSettings = defaultSettings;
+
+const resolveBaseUrl = (settings: ApiSettings): string =>
+  settings.customBaseUrl?.trim() || getProfileBaseUrl(settings.profile);
+
+// Shared axios instance for every backend call
+export const apiClient = axios.create({
+  baseURL: resolveBaseUrl(defaultSettings),
+  timeout: DEFAULT_TIMEOUT_MS,
+  headers: {
+    Accept: 'application/json',
+    'Content-Type': 'application/json',
+    'X-Client-App': `wctsystem-collector/${Constants.expoConfig?.version ?? 'unknown'}`,
+  },
+});
+
+// Load any saved override once; requests wait for it so none go to the wrong backend
+const settingsLoaded: Promise<void> = (async () => {
+  try {
+    const stored = await AsyncStorage.getItem(API_SETTINGS_KEY);
+    if (stored) {
+      currentSettings = { ...defaultSettings, ...JSON.parse(stored) };
+      apiClient.defaults.baseURL = resolveBaseUrl(currentSettings);
+    }
+    console.log(`ApiClient: Using ${currentSettings.profile} profile at ${apiClient.defaults.baseURL}`);
+  } catch (error) {
+    console.error('ApiClient: Failed to load API settings:', error);
+  }
+})();
+
+// Defaults are merged into the request before interceptors run, so apply the loaded base URL here
+apiClient.interceptors.request.use(async config => {
+  await settingsLoaded;
+  config.baseURL = resolveBaseUrl(currentSettings);
+  return config;
+});
+
+// Auth state is pushed in by CollectorAuthProvider so every request carries the current token
+let authToken: string | null = null;
+let unauthorizedHandler: (() => void) | null = null;
+let sessionRefresher: (() => Promise<string | null>) | null = null;
+
+// Endpoints that authenticate by other means and must never carry (or try to refresh) the bearer token
+const PUBLIC_PATHS = ['/collector/login', '/collector/refresh-token'];
+
+export const setAuthToken = (token: string | null) => {
+  authToken = token;
+};
+
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+export const setSessionRefresher = (refresher: (() => Promise<string | null>) | null) => {
+  sessionRefresher = refresher;
+};
+
+apiClient.interceptors.request.use(config => {
+  if (authToken && !config.headers.Authorization && !PUBLIC_PATHS.includes(config.url ?? '')) {
+    config.headers.Authorization = `Bearer ${authToken}`;
+  }
+  return config;
+});
+
+// A 401 on an authenticated request means the token is no longer valid: refresh it and retry once.
+// The session only ends if the refresh token is rejected too; if the refresh can't get through,
+// just this request fails so a collector isn't signed out mid-route by a dropped connection.
+apiClient.interceptors.response.use(
+  response => response,
+  async error => {
+    const config = error.config as (InternalAxiosRequestConfig & { _retriedAfterRefresh?: boolean }) | undefined;
+    if (config && isSessionExpiredError(error)) {
+      console.log(`ApiClient: Session rejected by ${config.url}`);
+      if (sessionRefresher && !config._retriedAfterRefresh) {
+        let newToken: string | null;
+        try {
+          newToken = await sessionRefresher();
+        } catch (refreshError) {
+          return Promise.reject(error);
+        }
+        if (newToken) {
+          config._retriedAfterRefresh = true;
+          config.headers.Authorization = `Bearer ${newToken}`;
+          return apiClient(config);
+        }
+      }
+      unauthorizedHandler?.();
+    }
+    return Promise.reject(error);
+  }
+);
+
+export const isSessionExpiredError = (error: unknown): boolean =>
+  axios.isAxiosError(error) &&
+  error.response?.status === 401 &&
+  !!error.config?.headers?.Authorization;
+
+export const getApiSettings = async (): Promise<ApiSettings> => {
+  await settingsLoaded;
+  return currentSettings;
+};
+
+export const getApiBaseUrl = (): string => resolveBaseUrl(currentSettings);
+
+export const saveApiSettings = async (settings: ApiSettings): Promise<void> => {
+  await settingsLoaded;
+  currentSettings = settings;
+  apiClient.defaults.baseURL = resolveBaseUrl(settings);
+  await AsyncStorage.setItem(API_SETTINGS_KEY, JSON.stringify(settings));
+  console.log(`ApiClient: Switched to ${settings.profile} profile at ${apiClient.defaults.baseURL}`);
+};
+
+export const resetApiSettings = async (): Promise<void> => {
+  await settingsLoaded;
+  currentSettings = defaultSettings;
+  apiClient.defaults.baseURL = resolveBaseUrl(defaultSettings);
+  await AsyncStorage.removeItem(API_SETTINGS_KEY);
+};
+
+export type { ApiProfile, ApiSettings };
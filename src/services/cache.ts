@@ -0,0 +1,102 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Every cached response is stored under this prefix together with the time it was fetched
+const CACHE_PREFIX = '@collector_cache:';
+
+// Cached data older than this is still served, but flagged as stale
+const DEFAULT_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+interface CachedValue<T> {
+  data: T;
+  syncedAt: string;
+}
+
+interface CachedResult<T> {
+  data: T;
+  syncedAt: Date;
+  fromCache: boolean;
+  stale: boolean;
+}
+
+// Freshness of a cached result, without the data itself, for "last synced" labels
+type CacheStatus = Omit<CachedResult<unknown>, 'data'>;
+
+// Keys for the data a collector needs to run a route offline
+export const cacheKeys = {
+  collector: 'collector',
+  area: 'area',
+  schedules: 'schedules',
+  schedule: (scheduleId: string) => `schedule:${scheduleId}`,
+};
+
+export const readCache = async <T>(key: string): Promise<CachedValue<T> | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(`${CACHE_PREFIX}${key}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error(`Cache: Failed to read ${key}:`, error);
+    return null;
+  }
+};
+
+export const writeCache = async <T>(key: string, data: T, syncedAt: Date = new Date()): Promise<void> => {
+  try {
+    const value: CachedValue<T> = { data, syncedAt: syncedAt.toISOString() };
+    await AsyncStorage.setItem(`${CACHE_PREFIX}${key}`, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Cache: Failed to write ${key}:`, error);
+  }
+};
+
+export const removeCache = async (key: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(`${CACHE_PREFIX}${key}`);
+  } catch (error) {
+    console.error(`Cache: Failed to remove ${key}:`, error);
+  }
+};
+
+// Remove everything cached for the signed-in collector, so the next one on the device doesn't see it
+export const clearCache = async (): Promise<void> => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(CACHE_PREFIX)));
+  } catch (error) {
+    console.error('Cache: Failed to clear cache:', error);
+  }
+};
+
+// Replace the cached data without touching its sync time, for changes made locally while offline
+export const updateCachedData = async <T>(key: string, data: T): Promise<void> => {
+  const cached = await readCache<T>(key);
+  await writeCache(key, data, cached ? new Date(cached.syncedAt) : new Date(0));
+};
+
+// Network first: fresh data is cached on success, and the last cached copy is served when the fetch fails
+export const fetchWithCache = async <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  maxAgeMs: number = DEFAULT_MAX_AGE_MS
+): Promise<CachedResult<T>> => {
+  try {
+    const data = await fetcher();
+    const syncedAt = new Date();
+    await writeCache(key, data, syncedAt);
+    return { data, syncedAt, fromCache: false, stale: false };
+  } catch (error) {
+    const cached = await readCache<T>(key);
+    if (!cached) {
+      throw error;
+    }
+    const syncedAt = new Date(cached.syncedAt);
+    console.log(`Cache: Serving ${key} from cache, last synced ${cached.syncedAt}`);
+    return {
+      data: cached.data,
+      syncedAt,
+      fromCache: true,
+      stale: Date.now() - syncedAt.getTime() > maxAgeMs,
+    };
+  }
+};
+
+export type { CachedValue, CachedResult, CacheStatus };
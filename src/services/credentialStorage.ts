@@ -0,0 +1,93 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+// Where the collector's session credentials are kept. The auth context only talks to this interface,
+// so it can be given an in-memory double in tests.
+interface CredentialStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+// SecureStore keys may only contain alphanumerics, '.', '-' and '_'
+export const CREDENTIAL_KEYS = {
+  authToken: 'collector_auth_token',
+  refreshToken: 'collector_refresh_token',
+};
+
+// Earlier versions kept credentials in plain AsyncStorage under these keys
+const LEGACY_ASYNC_STORAGE_KEYS: Record<string, string> = {
+  [CREDENTIAL_KEYS.authToken]: '@collector_auth_token',
+  [CREDENTIAL_KEYS.refreshToken]: '@collector_refresh_token',
+};
+
+// Keep tokens readable after the first unlock so a session refresh can run while the screen is locked
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK,
+};
+
+const keystoreBackend: CredentialStorage = {
+  getItem: key => SecureStore.getItemAsync(key, SECURE_STORE_OPTIONS),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value, SECURE_STORE_OPTIONS),
+  removeItem: key => SecureStore.deleteItemAsync(key, SECURE_STORE_OPTIONS),
+};
+
+// Platforms without a keystore (e.g. web) fall back to AsyncStorage
+const asyncStorageBackend: CredentialStorage = {
+  getItem: key => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: key => AsyncStorage.removeItem(key),
+};
+
+// Move any credentials left in plain AsyncStorage into the chosen backend, then delete the plain copies
+const migrateLegacyCredentials = async (backend: CredentialStorage): Promise<void> => {
+  for (const [key, legacyKey] of Object.entries(LEGACY_ASYNC_STORAGE_KEYS)) {
+    const legacyValue = await AsyncStorage.getItem(legacyKey);
+    if (legacyValue === null) continue;
+    if ((await backend.getItem(key)) === null) {
+      await backend.setItem(key, legacyValue);
+    }
+    await AsyncStorage.removeItem(legacyKey);
+    console.log(`CredentialStorage: Migrated ${legacyKey} out of AsyncStorage`);
+  }
+};
+
+// Resolve the backend and run the migration once, on first use
+let backendReady: Promise<CredentialStorage> | null = null;
+const getBackend = (): Promise<CredentialStorage> => {
+  if (!backendReady) {
+    backendReady = (async () => {
+      const backend = (await SecureStore.isAvailableAsync()) ? keystoreBackend : asyncStorageBackend;
+      try {
+        await migrateLegacyCredentials(backend);
+      } catch (error) {
+        console.error('CredentialStorage: Failed to migrate legacy credentials:', error);
+      }
+      return backend;
+    })();
+  }
+  return backendReady;
+};
+
+// Default storage: the platform keystore where available
+export const secureCredentialStorage: CredentialStorage = {
+  getItem: async key => (await getBackend()).getItem(key),
+  setItem: async (key, value) => (await getBackend()).setItem(key, value),
+  removeItem: async key => (await getBackend()).removeItem(key),
+};
+
+// In-memory test double, optionally seeded with stored credentials
+export const createMemoryCredentialStorage = (initial: Record<string, string> = {}): CredentialStorage => {
+  const values = new Map(Object.entries(initial));
+  return {
+    getItem: async key => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async key => {
+      values.delete(key);
+    },
+  };
+};
+
+export type { CredentialStorage };
@@ -0,0 +1,54 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { format } from 'date-fns';
+import { type Schedule } from './api';
+import { buildRouteReport } from '../utils/routeReport';
+import { buildRouteReportCsv } from '../utils/reportCsv';
+import { buildRouteReportHtml } from '../utils/reportHtml';
+
+type ReportFormat = 'pdf' | 'csv';
+
+const SHARE_OPTIONS: Record<ReportFormat, Sharing.SharingOptions> = {
+  pdf: { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: 'Share route report' },
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text', dialogTitle: 'Share route report' },
+};
+
+// Files are named after the route and its date so supervisors can tell reports apart
+const getReportFileName = (schedule: Schedule, reportFormat: ReportFormat) => {
+  const name = schedule.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'route';
+  const date = schedule.date ? format(new Date(schedule.date), 'yyyy-MM-dd') : schedule._id;
+  return `${name}-${date}-report.${reportFormat}`;
+};
+
+/**
+ * Writes the end-of-shift report for a route as a PDF or CSV and opens the share sheet for it
+ * @param schedule The finished or abandoned schedule, with its bins populated
+ * @param reportFormat The kind of file to share
+ */
+export const shareRouteReport = async (schedule: Schedule, reportFormat: ReportFormat): Promise<void> => {
+  try {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const report = buildRouteReport(schedule);
+    const fileUri = `${FileSystem.cacheDirectory}${getReportFileName(schedule, reportFormat)}`;
+
+    if (reportFormat === 'pdf') {
+      // The PDF is printed to a random name, so move it to one the recipient will recognise
+      const { uri } = await Print.printToFileAsync({ html: buildRouteReportHtml(schedule, report) });
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
+      await FileSystem.moveAsync({ from: uri, to: fileUri });
+    } else {
+      await FileSystem.writeAsStringAsync(fileUri, buildRouteReportCsv(schedule, report));
+    }
+
+    await Sharing.shareAsync(fileUri, SHARE_OPTIONS[reportFormat]);
+  } catch (error) {
+    console.error(`Report: Failed to share ${reportFormat.toUpperCase()} report:`, error);
+    throw error;
+  }
+};
+
+export type { ReportFormat };
@@ -0,0 +1,192 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  type Bin,
+  type CollectedWeight,
+  type DumpTrip,
+  type ProofPhotos,
+  type Schedule,
+  type ScheduleStatus,
+  type ShiftBreak,
+  type SkippedBin,
+} from './api';
+import { type MutationPayloads, type QueuedMutation } from './syncQueue';
+
+// Progress on a running route is saved under this prefix, one entry per schedule
+const SESSION_PREFIX = '@route_session:';
+
+// Everything needed to put the collector back where they were after a crash or restart,
+// including progress that has not reached the server yet
+interface RouteSession {
+  scheduleId: string;
+  binOrder: string[]; // Bin IDs in visiting order, including stops deferred or reordered on the device
+  currentBinId: string | null;
+  completedStops: string[];
+  skippedStops: SkippedBin[];
+  deferredStops: string[];
+  binWeights: Record<string, CollectedWeight>;
+  binCollectedAt: Record<string, string>;
+  stopPhotos: Record<string, ProofPhotos>; // Photos taken at stops that are not resolved yet
+  dumpTrips: DumpTrip[];
+  dumpTripStartedAt: string | null;
+  breaks: ShiftBreak[];
+  savedAt: string;
+}
+
+interface RestoredRoute {
+  status: 'in-progress' | 'paused'; // Paused while a break is still going on
+  binSequence: Schedule['binSequence'];
+  currentStopIndex: number; // -1 when every stop is resolved and the truck is heading for the end point
+  completedStops: string[];
+  skippedStops: SkippedBin[];
+  deferredStops: string[];
+  binWeights: Record<string, CollectedWeight>;
+  binCollectedAt: Record<string, string>;
+  stopPhotos: Record<string, ProofPhotos>;
+  dumpTrips: DumpTrip[];
+  dumpTripStartedAt: string | null;
+  breaks: ShiftBreak[];
+}
+
+export const saveRouteSession = async (session: RouteSession): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(`${SESSION_PREFIX}${session.scheduleId}`, JSON.stringify(session));
+  } catch (error) {
+    console.error(`Route session: Failed to save ${session.scheduleId}:`, error);
+  }
+};
+
+export const loadRouteSession = async (scheduleId: string): Promise<RouteSession | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(`${SESSION_PREFIX}${scheduleId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error(`Route session: Failed to load ${scheduleId}:`, error);
+    return null;
+  }
+};
+
+export const clearRouteSession = async (scheduleId: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(`${SESSION_PREFIX}${scheduleId}`);
+  } catch (error) {
+    console.error(`Route session: Failed to clear ${scheduleId}:`, error);
+  }
+};
+
+/**
+ * The status a schedule will have once its queued changes reach the server, e.g. for a route
+ * started or finished offline whose status change is still waiting in the outbox
+ * @param mutations The collector's queued mutations, oldest first
+ * @param scheduleId The schedule to check
+ * @returns The status from the latest queued change, or null when none is queued
+ */
+export const getQueuedStatus = (mutations: QueuedMutation[], scheduleId: string): ScheduleStatus | null =>
+  mutations.reduce<ScheduleStatus | null>((status, mutation) => {
+    if (mutation.scheduleId !== scheduleId) return status;
+    if (mutation.type === 'abandon-route') return 'cancelled';
+    if (mutation.type === 'schedule-status') return (mutation.payload as MutationPayloads['schedule-status']).status;
+    return status;
+  }, null);
+
+// Drop the saved progress for every route, e.g. when the collector signs out
+export const clearAllRouteSessions = async (): Promise<void> => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(SESSION_PREFIX)));
+  } catch (error) {
+    console.error('Route session: Failed to clear saved sessions:', error);
+  }
+};
+
+const getBinId = (bin: string | Bin) => (typeof bin === 'string' ? bin : bin._id);
+
+/**
+ * The stop to carry on from: the first open stop after the furthest one resolved,
+ * or an earlier open stop the collector jumped past
+ * @param binSequence The bins in visiting order
+ * @param resolved IDs of the bins collected or skipped
+ * @returns The index of the current stop, or -1 when every stop is resolved
+ */
+export const findCurrentStopIndex = (binSequence: (string | Bin)[], resolved: string[]): number => {
+  const isOpen = (bin: string | Bin) => !resolved.includes(getBinId(bin));
+  const furthestResolved = binSequence.reduce((last, bin, index) => (isOpen(bin) ? last : index), -1);
+  const nextIndex = binSequence.findIndex((bin, index) => index > furthestResolved && isOpen(bin));
+  return nextIndex !== -1 ? nextIndex : binSequence.findIndex(isOpen);
+};
+
+/**
+ * Combines an in-progress schedule from the server with the progress saved on the device.
+ * Outcomes from either side are kept, the server's record of a bin wins when both have one,
+ * and the device's stop order is used as long as it covers the same bins.
+ * @param schedule The schedule as loaded from the server or cache
+ * @param session The progress saved on the device, if any
+ * @returns The state to resume the route from
+ */
+export const restoreRouteSession = (schedule: Schedule, session: RouteSession | null): RestoredRoute => {
+  const serverBins = schedule.binSequence as (string | Bin)[];
+  const serverCompleted = schedule.completedBins ?? [];
+  const serverSkipped = schedule.skippedBins ?? [];
+  const serverDumpTrips = schedule.dumpTrips ?? [];
+
+  const completedStops = Array.from(new Set([...serverCompleted, ...(session?.completedStops ?? [])]));
+  const skippedStops = [
+    ...serverSkipped,
+    ...(session?.skippedStops ?? []).filter(
+      skip => !completedStops.includes(skip.binId) && !serverSkipped.some(serverSkip => serverSkip.binId === skip.binId)
+    ),
+  ];
+  const resolved = [...completedStops, ...skippedStops.map(skip => skip.binId)];
+
+  // Deferrals and offline reorders only exist on the device, so its order wins unless the bins changed
+  let binSequence = serverBins;
+  const serverIds = serverBins.map(getBinId);
+  const sameBins =
+    !!session &&
+    session.binOrder.length === serverIds.length &&
+    session.binOrder.every(id => serverIds.includes(id));
+  if (sameBins) {
+    binSequence = session.binOrder.map(id => serverBins[serverIds.indexOf(id)]);
+  }
+
+  // Carry on at the saved stop if it is still open, otherwise work it out from what is resolved
+  const savedBinId = session?.currentBinId;
+  const savedIndex = savedBinId && !resolved.includes(savedBinId)
+    ? binSequence.findIndex(bin => getBinId(bin) === savedBinId)
+    : -1;
+  const currentStopIndex = savedIndex !== -1 ? savedIndex : findCurrentStopIndex(binSequence, resolved);
+
+  // A break resumed on the device may still be open on the server until the resume syncs
+  const serverBreaks = schedule.breaks ?? [];
+  const sessionBreaks = session?.breaks ?? [];
+  const breaks = [
+    ...serverBreaks.map(
+      serverBreak => sessionBreaks.find(local => local.startedAt === serverBreak.startedAt && local.endedAt) ?? serverBreak
+    ),
+    ...sessionBreaks.filter(local => !serverBreaks.some(serverBreak => serverBreak.startedAt === local.startedAt)),
+  ];
+
+  return {
+    // A paused schedule from a server that doesn't report its breaks stays paused
+    status: breaks.some(shiftBreak => !shiftBreak.endedAt) || (schedule.status === 'paused' && breaks.length === 0)
+      ? 'paused'
+      : 'in-progress',
+    binSequence: binSequence as Schedule['binSequence'],
+    currentStopIndex,
+    completedStops,
+    skippedStops,
+    deferredStops: (session?.deferredStops ?? []).filter(id => !resolved.includes(id)),
+    binWeights: { ...session?.binWeights, ...schedule.binWeights },
+    binCollectedAt: { ...session?.binCollectedAt, ...schedule.binCollectedAt },
+    stopPhotos: session?.stopPhotos ?? {},
+    dumpTrips: [
+      ...serverDumpTrips,
+      ...(session?.dumpTrips ?? []).filter(
+        trip => !serverDumpTrips.some(serverTrip => serverTrip.startedAt === trip.startedAt)
+      ),
+    ],
+    dumpTripStartedAt: session?.dumpTripStartedAt ?? null,
+    breaks,
+  };
+};
+
+export type { RouteSession, RestoredRoute };
@@ -0,0 +1,267 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios from 'axios';
+import {
+  updateScheduleStatus,
+  updateScheduleBinCollected,
+  updateScheduleBinSkipped,
+  updateScheduleBinSequence,
+  uploadScheduleTrack,
+  recordStopVisit,
+  recordDumpTrip,
+  abandonSchedule,
+  uploadImage,
+  type AbandonReason,
+  type CollectedWeight,
+  type DumpTrip,
+  type PauseReason,
+  type Schedule,
+  type ProofPhotos,
+  type ResequenceReason,
+  type ScheduleStatus,
+  type SkipReason,
+  type StopVisit,
+  type TrackPoint,
+} from './api';
+import { deletePersistedImage } from '../utils/imageUtils';
+
+// Collector mutations are written here first and replayed in order once the server is reachable
+const OUTBOX_KEY = '@collector_outbox';
+// Mutations the server rejected outright are kept here until the collector retries or discards them
+const REJECTED_KEY = '@collector_outbox_rejected';
+
+// Payload stored for each kind of mutation
+interface MutationPayloads {
+  // occurredAt overrides the queue time, e.g. so a break is recorded from the moment it started
+  'schedule-status': { status: ScheduleStatus; reason?: PauseReason; note?: string; occurredAt?: string };
+  // Local photos are uploaded before the mutation is sent, and their URLs saved alongside them
+  'collect-bin': {
+    binId: string;
+    arrivedAt?: string;
+    photoUris?: ProofPhotos;
+    photoUrls?: ProofPhotos;
+    weight?: CollectedWeight;
+  };
+  'skip-bin': {
+    binId: string;
+    reason: SkipReason;
+    note?: string;
+    photoUri?: string;
+    photoUrl?: string;
+    arrivedAt?: string;
+  };
+  'reorder-stops': { binIds: string[]; reason: ResequenceReason; note?: string };
+  'track': { points: TrackPoint[] };
+  'stop-visit': StopVisit;
+  'dump-trip': DumpTrip;
+  'abandon-route': { reason: AbandonReason; note?: string; remainingBins: string[] };
+}
+
+type MutationType = keyof MutationPayloads;
+
+interface QueuedMutation<T extends MutationType = MutationType> {
+  id: string;
+  collectorId: string; // Only replayed while this collector is signed in
+  type: T;
+  scheduleId: string;
+  payload: MutationPayloads[T];
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+interface ReplayResult {
+  synced: number;
+  remaining: number;
+}
+
+type MutationSyncedListener = (mutation: QueuedMutation, result: Schedule) => void;
+
+// Serialize every read-modify-write of the outbox so concurrent enqueues and replays can't clobber each other
+let outboxLock: Promise<unknown> = Promise.resolve();
+const withOutboxLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = outboxLock.then(task, task);
+  outboxLock = run.catch(() => undefined);
+  return run;
+};
+
+const readList = async (key: string): Promise<QueuedMutation[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error(`SyncQueue: Failed to read ${key}:`, error);
+    return [];
+  }
+};
+
+const writeList = (key: string, mutations: QueuedMutation[]) =>
+  AsyncStorage.setItem(key, JSON.stringify(mutations));
+
+// Network failures and retryable statuses keep a mutation queued; anything else is a rejection
+const isRetryableError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error) || !error.response) return true;
+  const status = error.response.status;
+  return status === 401 || status === 408 || status === 429 || status >= 500;
+};
+
+// Upload a mutation's local photos as a step of their own, saving each URL in the outbox as soon as
+// it is known, so retrying a mutation whose request failed doesn't upload the same photos again
+const uploadMutationPhotos = async (mutation: QueuedMutation, save: () => Promise<void>): Promise<void> => {
+  if (mutation.type === 'collect-bin') {
+    const payload = mutation.payload as MutationPayloads['collect-bin'];
+    for (const kind of ['before', 'after'] as const) {
+      const uri = payload.photoUris?.[kind];
+      if (uri && !payload.photoUrls?.[kind]) {
+        payload.photoUrls = { ...payload.photoUrls, [kind]: await uploadImage(uri) };
+        await save();
+      }
+    }
+  } else if (mutation.type === 'skip-bin') {
+    const payload = mutation.payload as MutationPayloads['skip-bin'];
+    if (payload.photoUri && !payload.photoUrl) {
+      payload.photoUrl = await uploadImage(payload.photoUri);
+      await save();
+    }
+  }
+};
+
+// The device copies of a mutation's photos, which can go once it has been sent or discarded
+const deleteMutationPhotos = async (mutation: QueuedMutation): Promise<void> => {
+  const uris = mutation.type === 'collect-bin'
+    ? Object.values((mutation.payload as MutationPayloads['collect-bin']).photoUris ?? {})
+    : mutation.type === 'skip-bin'
+      ? [(mutation.payload as MutationPayloads['skip-bin']).photoUri]
+      : [];
+  await Promise.all(uris.filter((uri): uri is string => !!uri).map(deletePersistedImage));
+};
+
+const sendMutation = (mutation: QueuedMutation): Promise<Schedule> => {
+  switch (mutation.type) {
+    case 'schedule-status': {
+      const { status, occurredAt, ...details } = mutation.payload as MutationPayloads['schedule-status'];
+      return updateScheduleStatus(mutation.scheduleId, status, details, occurredAt ?? mutation.createdAt);
+    }
+    case 'collect-bin': {
+      const { binId, arrivedAt, photoUrls, weight } = mutation.payload as MutationPayloads['collect-bin'];
+      return updateScheduleBinCollected(
+        mutation.scheduleId,
+        binId,
+        { arrivedAt, photos: photoUrls, weight },
+        mutation.createdAt
+      );
+    }
+    case 'skip-bin': {
+      const { binId, reason, note, photoUrl, arrivedAt } = mutation.payload as MutationPayloads['skip-bin'];
+      return updateScheduleBinSkipped(mutation.scheduleId, binId, reason, { note, photoUrl, arrivedAt }, mutation.createdAt);
+    }
+    case 'reorder-stops': {
+      const { binIds, reason, note } = mutation.payload as MutationPayloads['reorder-stops'];
+      return updateScheduleBinSequence(mutation.scheduleId, binIds, reason, note, mutation.createdAt);
+    }
+    case 'track': {
+      const { points } = mutation.payload as MutationPayloads['track'];
+      return uploadScheduleTrack(mutation.scheduleId, points, mutation.createdAt);
+    }
+    case 'stop-visit':
+      return recordStopVisit(mutation.scheduleId, mutation.payload as MutationPayloads['stop-visit']);
+    case 'dump-trip':
+      return recordDumpTrip(mutation.scheduleId, mutation.payload as MutationPayloads['dump-trip']);
+    case 'abandon-route': {
+      const { reason, note, remainingBins } = mutation.payload as MutationPayloads['abandon-route'];
+      return abandonSchedule(mutation.scheduleId, reason, remainingBins, note, mutation.createdAt);
+    }
+    default:
+      return Promise.reject(new Error(`Unknown mutation type: ${(mutation as QueuedMutation).type}`));
+  }
+};
+
+const belongsTo = (collectorId: string) => (mutation: QueuedMutation) => mutation.collectorId === collectorId;
+
+export const getPendingMutations = async (collectorId: string): Promise<QueuedMutation[]> =>
+  (await readList(OUTBOX_KEY)).filter(belongsTo(collectorId));
+
+export const getRejectedMutations = async (collectorId: string): Promise<QueuedMutation[]> =>
+  (await readList(REJECTED_KEY)).filter(belongsTo(collectorId));
+
+export const enqueueMutation = <T extends MutationType>(
+  collectorId: string,
+  type: T,
+  scheduleId: string,
+  payload: MutationPayloads[T]
+): Promise<QueuedMutation<T>> =>
+  withOutboxLock(async () => {
+    const mutation: QueuedMutation<T> = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      collectorId,
+      type,
+      scheduleId,
+      payload,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    const outbox = await readList(OUTBOX_KEY);
+    await writeList(OUTBOX_KEY, [...outbox, mutation]);
+    console.log(`SyncQueue: Queued ${type} for schedule ${scheduleId}`);
+    return mutation;
+  });
+
+// Send the signed-in collector's mutations oldest first, stopping at the first one that can't get through.
+// Mutations queued by anyone else who used the device stay put until they sign in again.
+export const replayOutbox = (collectorId: string, onSynced?: MutationSyncedListener): Promise<ReplayResult> =>
+  withOutboxLock(async () => {
+    let outbox = await readList(OUTBOX_KEY);
+    let synced = 0;
+
+    for (const mutation of outbox.filter(belongsTo(collectorId))) {
+      try {
+        await uploadMutationPhotos(mutation, () => writeList(OUTBOX_KEY, outbox));
+        const result = await sendMutation(mutation);
+        outbox = outbox.filter(item => item.id !== mutation.id);
+        synced += 1;
+        await writeList(OUTBOX_KEY, outbox);
+        await deleteMutationPhotos(mutation);
+        onSynced?.(mutation, result);
+      } catch (error: any) {
+        if (isRetryableError(error)) {
+          mutation.attempts += 1;
+          mutation.lastError = error?.message || 'Unknown error';
+          await writeList(OUTBOX_KEY, outbox);
+          console.log(`SyncQueue: Replay paused at ${mutation.type} (attempt ${mutation.attempts})`);
+          break;
+        }
+        // The server will never accept this one; set it aside so the rest of the queue can drain
+        console.error(`SyncQueue: Server rejected ${mutation.type} for schedule ${mutation.scheduleId}:`, error);
+        outbox = outbox.filter(item => item.id !== mutation.id);
+        const rejected = await readList(REJECTED_KEY);
+        const message = error?.response?.data?.message || error?.message;
+        await writeList(REJECTED_KEY, [...rejected, { ...mutation, lastError: message }]);
+        await writeList(OUTBOX_KEY, outbox);
+      }
+    }
+
+    return { synced, remaining: outbox.filter(belongsTo(collectorId)).length };
+  });
+
+// Put a rejected mutation back at the end of the outbox, e.g. after the problem was fixed on the server
+export const retryRejectedMutation = (id: string): Promise<void> =>
+  withOutboxLock(async () => {
+    const rejected = await readList(REJECTED_KEY);
+    const mutation = rejected.find(item => item.id === id);
+    if (!mutation) return;
+    const outbox = await readList(OUTBOX_KEY);
+    await writeList(OUTBOX_KEY, [...outbox, { ...mutation, attempts: 0, lastError: undefined }]);
+    await writeList(REJECTED_KEY, rejected.filter(item => item.id !== id));
+    console.log(`SyncQueue: Requeued rejected ${mutation.type} for schedule ${mutation.scheduleId}`);
+  });
+
+export const discardRejectedMutation = (id: string): Promise<void> =>
+  withOutboxLock(async () => {
+    const rejected = await readList(REJECTED_KEY);
+    const mutation = rejected.find(item => item.id === id);
+    await writeList(REJECTED_KEY, rejected.filter(item => item.id !== id));
+    if (mutation) {
+      await deleteMutationPhotos(mutation);
+    }
+  });
+
+export type { QueuedMutation, MutationType, MutationPayloads, ReplayResult, MutationSyncedListener };
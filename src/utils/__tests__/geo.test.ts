@@ -0,0 +1,154 @@
+import {
+  getBoundingBox,
+  haversineDistance,
+  polylineLength,
+  projectOntoPolyline,
+  slicePolyline,
+  type LatLng,
+} from '../geo';
+
+const point = (latitude: number, longitude: number): LatLng => ({ latitude, longitude });
+
+describe('haversineDistance', () => {
+  it('is zero between a point and itself', () => {
+    expect(haversineDistance(point(6.9, 79.86), point(6.9, 79.86))).toBe(0);
+  });
+
+  it('measures a degree of latitude as about 111 km', () => {
+    expect(haversineDistance(point(0, 0), point(1, 0))).toBeCloseTo(111195, -1);
+  });
+
+  it('shrinks a degree of longitude away from the equator', () => {
+    const atEquator = haversineDistance(point(0, 0), point(0, 1));
+    const atSixty = haversineDistance(point(60, 0), point(60, 1));
+    expect(atSixty / atEquator).toBeCloseTo(0.5, 3);
+  });
+
+  it('is the same in both directions', () => {
+    const a = point(6.9271, 79.8612);
+    const b = point(7.2906, 80.6337);
+    expect(haversineDistance(a, b)).toBeCloseTo(haversineDistance(b, a), 6);
+  });
+});
+
+describe('polylineLength', () => {
+  it('is zero for an empty or one-point polyline', () => {
+    expect(polylineLength([])).toBe(0);
+    expect(polylineLength([point(0, 0)])).toBe(0);
+  });
+
+  it('adds up the segments', () => {
+    const polyline = [point(0, 0), point(0, 0.01), point(0.01, 0.01)];
+    const expected = haversineDistance(polyline[0], polyline[1]) + haversineDistance(polyline[1], polyline[2]);
+    expect(polylineLength(polyline)).toBeCloseTo(expected, 6);
+  });
+});
+
+describe('getBoundingBox', () => {
+  it('is null without points', () => {
+    expect(getBoundingBox([])).toBeNull();
+  });
+
+  it('is a single point for one point', () => {
+    expect(getBoundingBox([point(1, 2)])).toEqual({ minLat: 1, maxLat: 1, minLng: 2, maxLng: 2 });
+  });
+
+  it('contains every point', () => {
+    expect(getBoundingBox([point(1, -2), point(-3, 4), point(0.5, 0)])).toEqual({
+      minLat: -3,
+      maxLat: 1,
+      minLng: -2,
+      maxLng: 4,
+    });
+  });
+});
+
+describe('projectOntoPolyline', () => {
+  it('is null for an empty polyline', () => {
+    expect(projectOntoPolyline(point(0, 0), [])).toBeNull();
+  });
+
+  it('projects onto the only point of a one-point polyline', () => {
+    const projection = projectOntoPolyline(point(0, 0.01), [point(0, 0)]);
+    expect(projection).toMatchObject({ point: point(0, 0), segmentIndex: 0, fraction: 0, distanceAlong: 0 });
+    expect(projection?.distance).toBeCloseTo(haversineDistance(point(0, 0.01), point(0, 0)), 6);
+  });
+
+  it('finds the closest segment and how far along it the point falls', () => {
+    const polyline = [point(0, 0), point(0, 0.01), point(0.01, 0.01)];
+    const projection = projectOntoPolyline(point(0.004, 0.012), polyline);
+    expect(projection?.segmentIndex).toBe(1);
+    expect(projection?.fraction).toBeCloseTo(0.4, 6);
+    expect(projection?.point.latitude).toBeCloseTo(0.004, 9);
+    expect(projection?.point.longitude).toBeCloseTo(0.01, 9);
+    expect(projection?.distanceAlong).toBeCloseTo(
+      haversineDistance(polyline[0], polyline[1]) + haversineDistance(polyline[1], polyline[2]) * 0.4,
+      3
+    );
+  });
+
+  it('clamps points beyond the ends to the first and last vertex', () => {
+    const polyline = [point(0, 0), point(0, 0.01)];
+    expect(projectOntoPolyline(point(0, -0.01), polyline)).toMatchObject({ segmentIndex: 0, fraction: 0 });
+    expect(projectOntoPolyline(point(0, 0.02), polyline)).toMatchObject({ segmentIndex: 0, fraction: 1 });
+  });
+
+  it('scales longitude by latitude away from the equator', () => {
+    // At 60° north a degree of longitude is half a degree of latitude, so this segment runs at 45°
+    // and the point due north of its start projects onto the middle
+    const polyline = [point(60, 0), point(60.01, 0.02)];
+    const projection = projectOntoPolyline(point(60.01, 0), polyline);
+    expect(projection?.fraction).toBeCloseTo(0.5, 2);
+    expect(projection?.point.latitude).toBeCloseTo(60.005, 4);
+    expect(projection?.point.longitude).toBeCloseTo(0.01, 4);
+  });
+});
+
+describe('slicePolyline', () => {
+  const polyline = [point(0, 0), point(0, 0.01), point(0, 0.02), point(0, 0.03)];
+  const project = (longitude: number) => projectOntoPolyline(point(0, longitude), polyline);
+
+  it('returns the whole polyline without from or to', () => {
+    expect(slicePolyline(polyline)).toEqual(polyline);
+  });
+
+  it('is empty for an empty polyline', () => {
+    expect(slicePolyline([], project(0.01), project(0.02))).toEqual([]);
+  });
+
+  it('starts at from and keeps the rest of the vertices', () => {
+    const sliced = slicePolyline(polyline, project(0.015));
+    expect(sliced).toHaveLength(3);
+    expect(sliced[0].longitude).toBeCloseTo(0.015, 9);
+    expect(sliced.slice(1)).toEqual(polyline.slice(2));
+  });
+
+  it('ends at to and keeps the vertices before it', () => {
+    const sliced = slicePolyline(polyline, null, project(0.015));
+    expect(sliced).toHaveLength(3);
+    expect(sliced.slice(0, 2)).toEqual(polyline.slice(0, 2));
+    expect(sliced[2].longitude).toBeCloseTo(0.015, 9);
+  });
+
+  it('keeps the vertices between from and to on different segments', () => {
+    const sliced = slicePolyline(polyline, project(0.005), project(0.025));
+    expect(sliced.map(vertex => vertex.longitude)).toEqual([
+      expect.closeTo(0.005, 9),
+      0.01,
+      0.02,
+      expect.closeTo(0.025, 9),
+    ]);
+  });
+
+  it('is just from and to when both are on the same segment', () => {
+    const sliced = slicePolyline(polyline, project(0.012), project(0.018));
+    expect(sliced).toHaveLength(2);
+    expect(sliced[0].longitude).toBeCloseTo(0.012, 9);
+    expect(sliced[1].longitude).toBeCloseTo(0.018, 9);
+  });
+
+  it('is empty when to comes before from', () => {
+    expect(slicePolyline(polyline, project(0.025), project(0.005))).toEqual([]);
+    expect(slicePolyline(polyline, project(0.018), project(0.012))).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import { getJwtExpiry, getJwtSubject } from '../jwt';
+
+// Unsigned tokens are enough, since the helpers only read the payload
+const makeToken = (claims: Record<string, unknown>) => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `header.${payload}.signature`;
+};
+
+describe('getJwtSubject', () => {
+  it('reads the sub claim', () => {
+    expect(getJwtSubject(makeToken({ sub: '64f1c0ffee', exp: 1700000000 }))).toBe('64f1c0ffee');
+  });
+
+  it('is null when the token has no subject', () => {
+    expect(getJwtSubject(makeToken({ exp: 1700000000 }))).toBeNull();
+    expect(getJwtSubject(makeToken({ sub: '' }))).toBeNull();
+  });
+
+  it('is null for a token that cannot be decoded', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(getJwtSubject('not-a-token')).toBeNull();
+    expect(getJwtSubject('header.%%%.signature')).toBeNull();
+    consoleError.mockRestore();
+  });
+});
+
+describe('getJwtExpiry', () => {
+  it('reads the exp claim as a date', () => {
+    expect(getJwtExpiry(makeToken({ exp: 1700000000 }))?.getTime()).toBe(1700000000 * 1000);
+  });
+
+  it('is null when the token has no expiry', () => {
+    expect(getJwtExpiry(makeToken({ sub: 'abc' }))).toBeNull();
+  });
+});
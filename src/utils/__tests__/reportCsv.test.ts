@@ -0,0 +1,128 @@
+import { type Schedule } from '../../services/api';
+import { buildRouteReport } from '../routeReport';
+import { buildRouteReportCsv, formatCsvValue, toCsv } from '../reportCsv';
+
+describe('formatCsvValue', () => {
+  it('leaves empty values blank', () => {
+    expect(formatCsvValue(undefined)).toBe('');
+    expect(formatCsvValue(null)).toBe('');
+  });
+
+  it('writes plain text as is', () => {
+    expect(formatCsvValue('Main Street')).toBe('Main Street');
+  });
+
+  it('quotes text with commas', () => {
+    expect(formatCsvValue('12 Main St, Colombo')).toBe('"12 Main St, Colombo"');
+  });
+
+  it('doubles quotes inside quoted text', () => {
+    expect(formatCsvValue('Bin marked "full"')).toBe('"Bin marked ""full"""');
+  });
+
+  it('quotes text with line breaks', () => {
+    expect(formatCsvValue('Gate locked\r\nCall ahead')).toBe('"Gate locked\r\nCall ahead"');
+    expect(formatCsvValue('Gate locked\nCall ahead')).toBe('"Gate locked\nCall ahead"');
+  });
+
+  it('writes dates as local date and time', () => {
+    expect(formatCsvValue(new Date(2024, 4, 1, 8, 5))).toBe('2024-05-01 08:05');
+  });
+
+  it('writes booleans as yes or no', () => {
+    expect(formatCsvValue(true)).toBe('yes');
+    expect(formatCsvValue(false)).toBe('no');
+  });
+
+  it('writes whole numbers as is and decimals to one place', () => {
+    expect(formatCsvValue(42)).toBe('42');
+    expect(formatCsvValue(0)).toBe('0');
+    expect(formatCsvValue(12.345)).toBe('12.3');
+    expect(formatCsvValue(-3)).toBe('-3');
+  });
+
+  it('stops text from running as a spreadsheet formula', () => {
+    expect(formatCsvValue('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(formatCsvValue('+94 77 123 4567')).toBe("'+94 77 123 4567");
+    expect(formatCsvValue('-1 bin')).toBe("'-1 bin");
+    expect(formatCsvValue('@SUM(A1:A2)')).toBe("'@SUM(A1:A2)");
+    expect(formatCsvValue('\t=1+1')).toBe("'\t=1+1");
+    expect(formatCsvValue('Bins 1-2')).toBe('Bins 1-2');
+  });
+});
+
+describe('toCsv', () => {
+  it('joins cells with commas and rows with CRLF', () => {
+    expect(toCsv([['a', 1], [], ['b, c', true]])).toBe('a,1\r\n\r\n"b, c",yes');
+  });
+});
+
+describe('buildRouteReportCsv', () => {
+  const schedule: Schedule = {
+    _id: 'schedule-1',
+    name: 'Colombo North',
+    areaId: { _id: 'area-1', name: 'Colombo' },
+    date: '2024-05-01T00:00:00',
+    status: 'completed',
+    route: [],
+    distance: 12.5,
+    duration: 60,
+    binSequence: [
+      { _id: 'bin-1', location: { type: 'Point', coordinates: [79.86, 6.93] }, fillLevel: 80, address: '12 Main St, Colombo', wasteType: 'Plastic' },
+      { _id: 'bin-2', location: { type: 'Point', coordinates: [79.87, 6.94] }, fillLevel: 30, address: '=cmd|" /C calc"!A0' },
+      { _id: 'bin-3', location: { type: 'Point', coordinates: [79.88, 6.95] }, fillLevel: 50 },
+    ],
+    actualStartTime: '2024-05-01T08:00:00',
+    actualEndTime: '2024-05-01T09:00:00',
+    completedBins: ['bin-1'],
+    binPhotos: { 'bin-1': { before: 'https://example.com/before.jpg', after: 'https://example.com/after.jpg' } },
+    binWeights: { 'bin-1': { kg: 42.5, estimated: false } },
+    binCollectedAt: { 'bin-1': '2024-05-01T08:12:00' },
+    stopVisits: [{ binId: 'bin-1', arrivedAt: '2024-05-01T08:10:00', departedAt: '2024-05-01T08:14:00' }],
+    skippedBins: [
+      { binId: 'bin-2', reason: 'blocked', note: 'Gate "locked"', photoUrl: 'https://example.com/gate.jpg', skippedAt: '2024-05-01T08:30:00' },
+    ],
+  };
+  const lines = buildRouteReportCsv(schedule, buildRouteReport(schedule)).split('\r\n');
+
+  it('starts with the column headings', () => {
+    expect(lines[0]).toBe(
+      'Stop,Bin ID,Address,Waste Type,Fill Level (%),Outcome,Arrived,Collected/Skipped At,Departed,' +
+        'Minutes at Stop,Weight (kg),Weight Estimated,Skip Reason,Note,Before Photo,After Photo,Skip Photo'
+    );
+  });
+
+  it('writes a row for each stop in visiting order', () => {
+    expect(lines[1]).toBe(
+      '1,bin-1,"12 Main St, Colombo",plastic,80,collected,2024-05-01 08:10,2024-05-01 08:12,2024-05-01 08:14,' +
+        '4,42.5,no,,,https://example.com/before.jpg,https://example.com/after.jpg,'
+    );
+    expect(lines[2]).toBe(
+      '2,bin-2,"\'=cmd|"" /C calc""!A0",general,30,skipped,,2024-05-01 08:30,,,,,blocked,"Gate ""locked""",,,' +
+        'https://example.com/gate.jpg'
+    );
+    expect(lines[3]).toBe('3,bin-3,,general,50,not-visited,,,,,,,,,,,');
+  });
+
+  it('follows the stops with a blank line and the route totals', () => {
+    expect(lines[4]).toBe('');
+    const totals = Object.fromEntries(lines.slice(5).map(line => line.split(',')));
+    expect(totals).toMatchObject({
+      'Route': 'Colombo North',
+      'Date': '2024-05-01',
+      'Status': 'completed',
+      'Start': '2024-05-01 08:00',
+      'End': '2024-05-01 09:00',
+      'Bins Collected': '1',
+      'Bins Skipped': '1',
+      'Bins Handed Back': '0',
+      'Weight Collected (kg)': '42.5',
+      'Weight Estimated': 'no',
+      'Planned Distance (km)': '12.5',
+      'Actual Distance (km)': '',
+      'Working Minutes': '60',
+      'Minutes at Stops': '4',
+      'Weight plastic (kg)': '42.5',
+    });
+  });
+});
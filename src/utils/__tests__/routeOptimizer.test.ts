@@ -0,0 +1,80 @@
+import { haversineDistance } from '../geo';
+import { getRouteCost, optimizeStopOrder, ROUTE_START, type OptimizerStop } from '../routeOptimizer';
+
+// Points along the equator, where a degree of longitude is the same length everywhere
+const at = (longitude: number) => ({ latitude: 0, longitude });
+const stop = (id: string, longitude: number): OptimizerStop => ({ id, ...at(longitude) });
+
+describe('getRouteCost', () => {
+  it('is zero with no stops and no end', () => {
+    expect(getRouteCost(at(0), [])).toBe(0);
+  });
+
+  it('adds up the legs from the start, through the stops, to the end', () => {
+    const stops = [stop('a', 0.01), stop('b', 0.03)];
+    expect(getRouteCost(at(0), stops, at(0.04))).toBeCloseTo(haversineDistance(at(0), at(0.04)), 6);
+  });
+
+  it('estimates pairs missing from the travel-time matrix from their distance', () => {
+    const stops = [stop('a', 0.01), stop('b', 0.03)];
+    const fallbackSeconds = haversineDistance(at(0.01), at(0.03)) / (25 / 3.6);
+    expect(getRouteCost(at(0), stops, undefined, { [ROUTE_START]: { a: 100 } })).toBeCloseTo(100 + fallbackSeconds, 6);
+  });
+});
+
+describe('optimizeStopOrder', () => {
+  it('returns an empty order when there are no stops', () => {
+    expect(optimizeStopOrder(at(0), [])).toEqual({ order: [], cost: 0 });
+  });
+
+  it('drives straight to the end when there are no stops', () => {
+    const { order, cost } = optimizeStopOrder(at(0), [], at(0.02));
+    expect(order).toEqual([]);
+    expect(cost).toBeCloseTo(haversineDistance(at(0), at(0.02)), 6);
+  });
+
+  it('visits a single stop', () => {
+    const { order, cost } = optimizeStopOrder(at(0), [stop('a', 0.01)]);
+    expect(order).toEqual(['a']);
+    expect(cost).toBeCloseTo(haversineDistance(at(0), at(0.01)), 6);
+  });
+
+  it('keeps the start and end fixed and leaves them out of the order', () => {
+    // Without an end the nearest stop comes first; ending beside it pushes it to the back
+    const stops = [stop('near', 0.01), stop('far', -0.02)];
+    expect(optimizeStopOrder(at(0), stops).order).toEqual(['near', 'far']);
+    const { order, cost } = optimizeStopOrder(at(0), stops, at(0.011));
+    expect(order).toEqual(['far', 'near']);
+    expect(cost).toBeCloseTo(getRouteCost(at(0), [stops[1], stops[0]], at(0.011)), 6);
+  });
+
+  it('follows the travel-time matrix over straight-line distance', () => {
+    const stops = [stop('a', 0.01), stop('b', 0.02)];
+    const travelTimes = {
+      [ROUTE_START]: { a: 500, b: 60 },
+      b: { a: 60 },
+      a: { b: 500 },
+    };
+    const { order, cost } = optimizeStopOrder(at(0), stops, undefined, travelTimes);
+    expect(order).toEqual(['b', 'a']);
+    expect(cost).toBe(120);
+  });
+
+  it('uses distance estimates for pairs missing from the matrix', () => {
+    const stops = [stop('a', 0.01), stop('b', 0.02)];
+    // Only the first leg is known, and it makes the far stop much cheaper to reach first
+    const { order } = optimizeStopOrder(at(0), stops, undefined, { [ROUTE_START]: { b: 1 } });
+    expect(order).toEqual(['b', 'a']);
+  });
+
+  it('untangles a crossed nearest-neighbour tour with 2-opt', () => {
+    const stops = [stop('near', 0.01), stop('far', 0.03), stop('west', -0.015)];
+    const end = at(0.04);
+    // Nearest neighbour goes east to near and far, then doubles back west before heading to the end
+    const nearestNeighbourCost = getRouteCost(at(0), [stops[0], stops[1], stops[2]], end);
+    const { order, cost } = optimizeStopOrder(at(0), stops, end);
+    expect(order).toEqual(['west', 'near', 'far']);
+    expect(cost).toBeCloseTo(getRouteCost(at(0), [stops[2], stops[0], stops[1]], end), 6);
+    expect(cost).toBeLessThan(nearestNeighbourCost);
+  });
+});
@@ -0,0 +1,61 @@
+import { getRouteProgress, type RouteProgressInput } from '../routeProgress';
+import { haversineDistance, type LatLng } from '../geo';
+
+const point = (latitude: number, longitude: number): LatLng => ({ latitude, longitude });
+
+// Out along the equator and back a little to the north, so both passes run past the same stretch
+const outbound = [point(0, 0), point(0, 0.02)];
+const turn = point(0.0005, 0.02);
+const inbound = point(0.0005, 0);
+const route = [...outbound, turn, inbound];
+const routeMeters =
+  haversineDistance(outbound[0], outbound[1]) + haversineDistance(outbound[1], turn) + haversineDistance(turn, inbound);
+
+const startedAt = new Date('2026-01-05T08:00:00Z');
+const baseInput: RouteProgressInput = {
+  route,
+  plannedMinutes: 60,
+  startedAt,
+  position: null,
+  visitedStops: [],
+  completedFraction: 0,
+  now: new Date('2026-01-05T08:30:00Z'),
+};
+
+describe('getRouteProgress', () => {
+  it('counts the whole route as left before anything is done', () => {
+    const progress = getRouteProgress(baseInput);
+    expect(progress.remainingMeters).toBeCloseTo(routeMeters, 0);
+    expect(progress.completedFraction).toBe(0);
+    expect(progress.scheduleDeltaMinutes).toBe(30);
+  });
+
+  it('moves on when a stop is resolved, even with the truck standing still', () => {
+    const position = point(0, 0.005);
+    const before = getRouteProgress({ ...baseInput, position });
+    const after = getRouteProgress({ ...baseInput, position, completedFraction: 0.5 });
+    expect(after.completedFraction).toBeGreaterThan(before.completedFraction);
+  });
+
+  it('places the truck on the return pass once the stops on the way out are visited', () => {
+    // Halfway back, but nearer the outbound pass than the return one
+    const position = point(0.0001, 0.01);
+    const outboundOnly = getRouteProgress({ ...baseInput, position });
+    const afterTurn = getRouteProgress({ ...baseInput, position, visitedStops: [point(0, 0.019), turn] });
+    expect(outboundOnly.remainingMeters).toBeGreaterThan(routeMeters / 2);
+    expect(afterTurn.remainingMeters).toBeLessThan(routeMeters / 2);
+  });
+
+  it('measures from the last visited stop without a GPS fix', () => {
+    const progress = getRouteProgress({ ...baseInput, visitedStops: [point(0, 0.01)], completedFraction: 0.5 });
+    expect(progress.remainingMeters).toBeCloseTo(routeMeters - haversineDistance(outbound[0], point(0, 0.01)), 0);
+    expect(progress.completedFraction).toBeCloseTo((haversineDistance(outbound[0], point(0, 0.01)) / routeMeters + 0.5) / 2, 3);
+  });
+
+  it('falls back to the share of stops resolved when the route has no geometry', () => {
+    const progress = getRouteProgress({ ...baseInput, route: [], completedFraction: 0.25 });
+    expect(progress.remainingMeters).toBe(0);
+    expect(progress.completedFraction).toBe(0.25);
+    expect(progress.projectedFinish).toEqual(new Date('2026-01-05T09:15:00Z'));
+  });
+});
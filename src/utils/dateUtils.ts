@@ -0,0 +1,13 @@
+import { format, isToday } from 'date-fns';
+
+/**
+ * Formats the time cached data was last fetched from the server
+ * @param syncedAt When the data was last synced
+ * @returns A label such as "Last synced 8:15 AM", with the date included when it wasn't today
+ */
+export const formatLastSynced = (syncedAt: Date): string => {
+  if (syncedAt.getTime() === 0) {
+    return 'Never synced';
+  }
+  return `Last synced ${format(syncedAt, isToday(syncedAt) ? 'h:mm a' : 'MMM d, h:mm a')}`;
+};
@@ -0,0 +1,146 @@
+// Geographic helpers. Coordinates use the react-native-maps { latitude, longitude } shape.
+
+interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// Where a point falls on a polyline
+interface PolylineProjection {
+  point: LatLng; // Closest point on the polyline
+  segmentIndex: number; // Index of the vertex that starts the segment the point lies on
+  fraction: number; // How far along that segment, from 0 to 1
+  distance: number; // Meters from the original point to the polyline
+  distanceAlong: number; // Meters from the start of the polyline
+}
+
+// Mean Earth radius in meters
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+/**
+ * Great-circle distance between two points
+ * @returns The distance in meters
+ */
+export const haversineDistance = (from: LatLng, to: LatLng): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Initial compass bearing for the great-circle path between two points
+ * @returns The bearing in degrees clockwise from north, from 0 up to 360
+ */
+export const bearing = (from: LatLng, to: LatLng): number => {
+  const fromLat = toRadians(from.latitude);
+  const toLat = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(toLat);
+  const x = Math.cos(fromLat) * Math.sin(toLat) - Math.sin(fromLat) * Math.cos(toLat) * Math.cos(dLon);
+  return (Math.atan2(y, x) * (180 / Math.PI) + 360) % 360;
+};
+
+/**
+ * Converts a GeoJSON position, which puts longitude first, to a LatLng
+ * @param position The [longitude, latitude] pair
+ */
+export const fromGeoJson = ([longitude, latitude]: [number, number] | number[]): LatLng => ({ latitude, longitude });
+
+/**
+ * Length of a path along its vertices
+ * @returns The length in meters
+ */
+export const polylineLength = (polyline: LatLng[]): number =>
+  polyline.reduce((total, point, index) => (index === 0 ? 0 : total + haversineDistance(polyline[index - 1], point)), 0);
+
+/**
+ * Smallest box containing all of the points
+ * @returns The bounds, or null when there are no points
+ */
+export const getBoundingBox = (points: LatLng[]): BoundingBox | null => {
+  if (points.length === 0) return null;
+  return points.reduce<BoundingBox>(
+    (box, point) => ({
+      minLat: Math.min(box.minLat, point.latitude),
+      maxLat: Math.max(box.maxLat, point.latitude),
+      minLng: Math.min(box.minLng, point.longitude),
+      maxLng: Math.max(box.maxLng, point.longitude),
+    }),
+    { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity }
+  );
+};
+
+/**
+ * Finds the closest point on a polyline to the given point
+ * @param point The point to project, e.g. a bin location
+ * @param polyline The path to project onto
+ * @returns The projection, or null when the polyline is empty
+ */
+export const projectOntoPolyline = (point: LatLng, polyline: LatLng[]): PolylineProjection | null => {
+  if (polyline.length === 0) return null;
+  if (polyline.length === 1) {
+    return { point: polyline[0], segmentIndex: 0, fraction: 0, distance: haversineDistance(point, polyline[0]), distanceAlong: 0 };
+  }
+
+  let best: PolylineProjection | null = null;
+  let segmentStartAlong = 0;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const a = polyline[i];
+    const b = polyline[i + 1];
+    // Project in a local flat frame, scaling longitude so a degree east counts the same as a degree north
+    const scale = Math.cos(toRadians((a.latitude + b.latitude) / 2));
+    const dx = (b.longitude - a.longitude) * scale;
+    const dy = b.latitude - a.latitude;
+    const lengthSquared = dx * dx + dy * dy;
+    const fraction = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, (((point.longitude - a.longitude) * scale) * dx + (point.latitude - a.latitude) * dy) / lengthSquared));
+    const projected = {
+      latitude: a.latitude + (b.latitude - a.latitude) * fraction,
+      longitude: a.longitude + (b.longitude - a.longitude) * fraction,
+    };
+    const segmentLength = haversineDistance(a, b);
+    const distance = haversineDistance(point, projected);
+    if (!best || distance < best.distance) {
+      best = { point: projected, segmentIndex: i, fraction, distance, distanceAlong: segmentStartAlong + segmentLength * fraction };
+    }
+    segmentStartAlong += segmentLength;
+  }
+  return best;
+};
+
+/**
+ * The part of a polyline between two projected points
+ * @param polyline The full path
+ * @param from Where to start; the start of the polyline when omitted
+ * @param to Where to stop; the end of the polyline when omitted
+ * @returns The sub-path, or an empty array when `to` comes before `from`
+ */
+export const slicePolyline = (
+  polyline: LatLng[],
+  from?: PolylineProjection | null,
+  to?: PolylineProjection | null
+): LatLng[] => {
+  if (polyline.length === 0) return [];
+  if (from && to && to.distanceAlong < from.distanceAlong) return [];
+  const start = from ? [from.point, ...polyline.slice(from.segmentIndex + 1)] : polyline;
+  if (!to) return start;
+  // Vertices before `from` were dropped, so shift the end index to match
+  const endIndex = to.segmentIndex + 1 - (from ? from.segmentIndex : 0);
+  return [...start.slice(0, endIndex), to.point];
+};
+
+export type { LatLng, BoundingBox, PolylineProjection };
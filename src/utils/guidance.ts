@@ -0,0 +1,113 @@
+// Simple turn-by-turn guidance along the polyline to the next stop
+
+import { bearing, haversineDistance, projectOntoPolyline, type LatLng } from './geo';
+
+type Manoeuvre = 'straight' | 'slight-left' | 'left' | 'sharp-left' | 'slight-right' | 'right' | 'sharp-right' | 'arrive';
+
+interface Guidance {
+  manoeuvre: Manoeuvre;
+  distanceToManoeuvre: number; // meters
+  heading: number; // Bearing to drive now, in degrees from north
+  distanceRemaining: number; // meters to the next stop
+  etaSeconds: number; // Seconds to the next stop
+  offRoute: boolean;
+}
+
+// Further than this from the polyline counts as off route
+const OFF_ROUTE_DISTANCE_M = 40;
+// Changes of direction smaller than this are treated as following the road
+const MIN_TURN_ANGLE_DEG = 30;
+// Below this the GPS speed is too unreliable to estimate arrival from
+const MIN_MOVING_SPEED_MPS = 2;
+// Assumed average speed of a collection truck in town
+const DEFAULT_SPEED_MPS = 20 / 3.6;
+
+// Signed change of direction in degrees, from -180 (left) to 180 (right)
+const turnAngle = (fromBearing: number, toBearing: number) => ((toBearing - fromBearing + 540) % 360) - 180;
+
+const classifyTurn = (angle: number): Manoeuvre => {
+  const size = Math.abs(angle);
+  if (size < MIN_TURN_ANGLE_DEG) return 'straight';
+  const side = angle < 0 ? 'left' : 'right';
+  if (size < 60) return `slight-${side}`;
+  if (size < 135) return side;
+  return `sharp-${side}`;
+};
+
+/**
+ * Works out the next instruction for driving along a polyline to a stop
+ * @param position The truck's current position, with its GPS speed in m/s if known
+ * @param polyline The path to the next stop, ending at the stop
+ * @returns The next manoeuvre and arrival estimate, or null when there is no path
+ */
+export const getGuidance = (position: LatLng & { speed?: number | null }, polyline: LatLng[]): Guidance | null => {
+  if (polyline.length === 0) return null;
+  const destination = polyline[polyline.length - 1];
+  const speed = position.speed && position.speed >= MIN_MOVING_SPEED_MPS ? position.speed : DEFAULT_SPEED_MPS;
+  const projection = projectOntoPolyline(position, polyline);
+
+  // Off the path: point straight at the stop and let the collector find their way back
+  if (!projection || projection.distance > OFF_ROUTE_DISTANCE_M || polyline.length === 1) {
+    const distance = haversineDistance(position, destination);
+    return {
+      manoeuvre: 'arrive',
+      distanceToManoeuvre: distance,
+      heading: bearing(position, destination),
+      distanceRemaining: distance,
+      etaSeconds: distance / speed,
+      offRoute: !!projection && projection.distance > OFF_ROUTE_DISTANCE_M,
+    };
+  }
+
+  // Walk forward along the path to the first vertex where the road turns
+  const path = [projection.point, ...polyline.slice(projection.segmentIndex + 1)];
+  let travelled = 0;
+  let manoeuvre: Manoeuvre = 'arrive';
+  let distanceToManoeuvre: number | null = null;
+  for (let i = 1; i < path.length; i++) {
+    travelled += haversineDistance(path[i - 1], path[i]);
+    if (distanceToManoeuvre === null && i < path.length - 1) {
+      const turn = classifyTurn(turnAngle(bearing(path[i - 1], path[i]), bearing(path[i], path[i + 1])));
+      if (turn !== 'straight') {
+        manoeuvre = turn;
+        distanceToManoeuvre = travelled;
+      }
+    }
+  }
+
+  return {
+    manoeuvre,
+    distanceToManoeuvre: distanceToManoeuvre ?? travelled,
+    heading: bearing(path[0], path[1] ?? destination),
+    distanceRemaining: travelled,
+    etaSeconds: travelled / speed,
+    offRoute: false,
+  };
+};
+
+/**
+ * Formats a distance for an instruction, e.g. "80 m" or "1.2 km"
+ */
+export const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+
+/**
+ * Spoken-style instruction for a guidance result, e.g. "Turn left in 120 m"
+ */
+export const describeGuidance = (guidance: Guidance): string => {
+  const distance = formatDistance(guidance.distanceToManoeuvre);
+  switch (guidance.manoeuvre) {
+    case 'arrive':
+      return guidance.offRoute ? `Off route - destination is ${distance} away` : `Arrive in ${distance}`;
+    case 'slight-left':
+    case 'slight-right':
+      return `Bear ${guidance.manoeuvre.replace('slight-', '')} in ${distance}`;
+    case 'sharp-left':
+    case 'sharp-right':
+      return `Sharp ${guidance.manoeuvre.replace('sharp-', '')} in ${distance}`;
+    default:
+      return `Turn ${guidance.manoeuvre} in ${distance}`;
+  }
+};
+
+export type { Guidance, Manoeuvre };
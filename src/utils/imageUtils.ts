@@ -1,5 +1,9 @@
 
 import * as FileSystem from 'expo-file-system';
+import * as ImagePicker from 'expo-image-picker';
+
+// Photos waiting to be uploaded are kept here, out of the cache directory the OS may clear
+const PERSISTED_IMAGE_DIRECTORY = `${FileSystem.documentDirectory}photos/`;
 
 /**
  * Converts an image URI to a base64 string
@@ -36,3 +40,45 @@ export const imageToBase64 = async (uri: string): Promise<string> => {
     throw error;
   }
 };
+
+/**
+ * Copies a captured image out of the cache directory so it survives until it has been uploaded
+ * @param uri The local file URI returned by the camera or image picker
+ * @returns A Promise that resolves to the URI of the stored copy
+ */
+export const persistImage = async (uri: string): Promise<string> => {
+  await FileSystem.makeDirectoryAsync(PERSISTED_IMAGE_DIRECTORY, { intermediates: true });
+  const target = `${PERSISTED_IMAGE_DIRECTORY}${Date.now()}-${uri.split('/').pop() || 'photo.jpg'}`;
+  await FileSystem.copyAsync({ from: uri, to: target });
+  return target;
+};
+
+/**
+ * Deletes a copy made by persistImage once it is no longer needed. Other URIs are left alone.
+ * @param uri The URI of the stored copy
+ */
+export const deletePersistedImage = async (uri: string): Promise<void> => {
+  if (!uri.startsWith(PERSISTED_IMAGE_DIRECTORY)) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting stored image:', error);
+  }
+};
+
+/**
+ * Takes a photo with the device camera
+ * @returns A Promise that resolves to the local URI of the photo, or null if the collector cancelled
+ * @throws If camera access was not granted
+ */
+export const capturePhoto = async (): Promise<string | null> => {
+  const { status } = await ImagePicker.requestCameraPermissionsAsync();
+  if (status !== 'granted') {
+    throw new Error('Allow camera access to attach a photo.');
+  }
+  const result = await ImagePicker.launchCameraAsync({
+    mediaTypes: ImagePicker.MediaTypeOptions.Images,
+    quality: 0.5,
+  });
+  return result.canceled ? null : result.assets[0].uri;
+};
@@ -0,0 +1,35 @@
+// Decodes a JWT's payload without verifying it; null if the token can't be decoded
+const decodeJwtClaims = (token: string): Record<string, unknown> | null => {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+
+    // JWTs use base64url without padding
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    return JSON.parse(atob(padded));
+  } catch (error) {
+    console.error('Error decoding token:', error);
+    return null;
+  }
+};
+
+/**
+ * Reads the expiry time from a JWT without verifying it
+ * @param token The encoded JWT
+ * @returns The `exp` claim as a Date, or null if the token has none or can't be decoded
+ */
+export const getJwtExpiry = (token: string): Date | null => {
+  const claims = decodeJwtClaims(token);
+  return typeof claims?.exp === 'number' ? new Date(claims.exp * 1000) : null;
+};
+
+/**
+ * Reads the subject, the signed-in collector's ID, from a JWT without verifying it
+ * @param token The encoded JWT
+ * @returns The `sub` claim, or null if the token has none or can't be decoded
+ */
+export const getJwtSubject = (token: string): string | null => {
+  const claims = decodeJwtClaims(token);
+  return typeof claims?.sub === 'string' && claims.sub ? claims.sub : null;
+};
@@ -0,0 +1,109 @@
+// CSV version of the post-route report, one row per stop followed by the route totals
+
+import { format } from 'date-fns';
+import { type Schedule } from '../services/api';
+import { type RouteReport } from './routeReport';
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+const STOP_COLUMNS = [
+  'Stop',
+  'Bin ID',
+  'Address',
+  'Waste Type',
+  'Fill Level (%)',
+  'Outcome',
+  'Arrived',
+  'Collected/Skipped At',
+  'Departed',
+  'Minutes at Stop',
+  'Weight (kg)',
+  'Weight Estimated',
+  'Skip Reason',
+  'Note',
+  'Before Photo',
+  'After Photo',
+  'Skip Photo',
+];
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Formats a single value for a CSV cell. Values with commas, quotes or line breaks are quoted,
+ * and quotes inside them are doubled. Text that a spreadsheet would run as a formula, such as a
+ * collector's note starting with "=", is prefixed with an apostrophe so it opens as plain text.
+ * @param value The cell value; dates are written as "yyyy-MM-dd HH:mm"
+ * @returns The cell text
+ */
+export const formatCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  let text: string;
+  if (value instanceof Date) text = format(value, 'yyyy-MM-dd HH:mm');
+  else if (typeof value === 'boolean') text = value ? 'yes' : 'no';
+  else if (typeof value === 'number') text = Number.isInteger(value) ? String(value) : value.toFixed(1);
+  else text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Joins rows of values into CSV text with CRLF line endings
+ */
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map(row => row.map(formatCsvValue).join(',')).join('\r\n');
+
+/**
+ * Builds the CSV report for a route
+ * @param schedule The schedule the report was built from, for its name, date and photos
+ * @param report The post-route report
+ * @returns The CSV text
+ */
+export const buildRouteReportCsv = (schedule: Schedule, report: RouteReport): string => {
+  const stopRows = report.timeline.map(entry => {
+    const photos = schedule.binPhotos?.[entry.binId];
+    const skip = schedule.skippedBins?.find(skipped => skipped.binId === entry.binId);
+    return [
+      entry.stopNumber,
+      entry.binId,
+      entry.address,
+      entry.wasteType,
+      entry.fillLevel,
+      entry.outcome,
+      entry.arrivedAt,
+      entry.resolvedAt,
+      entry.departedAt,
+      entry.minutesAtStop,
+      entry.weight?.kg,
+      entry.weight?.estimated,
+      entry.skipReason,
+      entry.note,
+      photos?.before,
+      photos?.after,
+      skip?.photoUrl,
+    ];
+  });
+
+  const totals: CsvValue[][] = [
+    ['Route', schedule.name],
+    ['Date', schedule.date ? format(new Date(schedule.date), 'yyyy-MM-dd') : undefined],
+    ['Status', schedule.status],
+    ['Start', report.start],
+    ['End', report.end],
+    ['Bins Collected', report.collectedCount],
+    ['Bins Skipped', report.skippedCount],
+    ['Bins Handed Back', report.handedBackCount],
+    ['Weight Collected (kg)', report.totalWeightKg],
+    ['Weight Estimated', report.totalWeightEstimated],
+    ['Planned Distance (km)', report.plannedDistanceKm],
+    ['Actual Distance (km)', report.actualDistanceKm],
+    ['Working Minutes', report.workingMinutes],
+    ['Break Minutes', report.breakMinutes],
+    ['Driving Minutes', report.drivingMinutes],
+    ['Minutes at Stops', report.stopMinutes],
+    ['Idle Minutes', report.idleMinutes],
+    ['Efficiency (%)', report.efficiency],
+    ...report.byWasteType.map(group => [`Weight ${group.wasteType} (kg)`, group.weightKg]),
+  ];
+
+  return toCsv([STOP_COLUMNS, ...stopRows, [], ...totals]);
+};
@@ -0,0 +1,125 @@
+// Printable HTML version of the post-route report, turned into a PDF for supervisors
+
+import { format } from 'date-fns';
+import { type Schedule } from '../services/api';
+import { formatWasteType } from './wasteTypes';
+import { OUTCOME_LABELS, type RouteReport } from './routeReport';
+
+const STYLES = `
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #333; font-size: 12px; margin: 24px; }
+  h1 { color: #12805c; font-size: 22px; margin: 0 0 4px; }
+  h2 { color: #12805c; font-size: 16px; margin: 24px 0 8px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  .subtitle { color: #555; margin-bottom: 16px; }
+  .warning { color: #B45309; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px; border-bottom: 1px solid #eee; vertical-align: top; }
+  th { background: #f5f5f5; }
+  .totals td:first-child { color: #555; width: 50%; }
+  .stop { page-break-inside: avoid; }
+  .photos img { width: 120px; height: 90px; object-fit: cover; border-radius: 4px; margin: 4px 4px 0 0; }
+`;
+
+// Report values come from the server and collectors, so they are escaped before going into the markup
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatTime = (date?: Date) => (date ? format(date, 'h:mm a') : '-');
+
+// Turns a reason ID such as "blocked-access" into "Blocked access"
+const formatReason = (reason: string) => {
+  const words = reason.replace(/-/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Builds the printable HTML report for a route, with photos linked from their uploaded URLs
+ * @param schedule The schedule the report was built from, for its name, date, photos and cancellation
+ * @param report The post-route report
+ * @returns A complete HTML document
+ */
+export const buildRouteReportHtml = (schedule: Schedule, report: RouteReport): string => {
+  const { cancellation } = schedule;
+  const totals: [string, string][] = [
+    ['Bins Collected', String(report.collectedCount)],
+    ['Bins Skipped', String(report.skippedCount)],
+    ...(cancellation ? [['Handed Back to Dispatch', String(report.handedBackCount)] as [string, string]] : []),
+    ['Weight Collected', `${report.totalWeightEstimated ? '~' : ''}${Math.round(report.totalWeightKg)} kg`],
+    ...report.byWasteType.map(group => [
+      formatWasteType(group.wasteType),
+      `${group.count} bins, ${group.estimated ? '~' : ''}${Math.round(group.weightKg)} kg`,
+    ] as [string, string]),
+    ['Planned Distance', `${report.plannedDistanceKm.toFixed(1)} km`],
+    ['Actual Distance', report.actualDistanceKm !== null ? `${report.actualDistanceKm.toFixed(1)} km` : '-'],
+    ['Start Time', formatTime(report.start)],
+    ['End Time', formatTime(report.end)],
+    ['Working Time', `${report.workingMinutes} min`],
+    ['Breaks', `${report.breakMinutes} min`],
+    ['Driving', `${report.drivingMinutes} min`],
+    ['At Stops', `${report.stopMinutes} min`],
+    ['Efficiency', `${report.efficiency}%`],
+  ];
+
+  const stops = report.timeline.map(entry => {
+    const outcome = OUTCOME_LABELS[entry.outcome];
+    const proofPhotos = schedule.binPhotos?.[entry.binId];
+    const skipPhoto = schedule.skippedBins?.find(skipped => skipped.binId === entry.binId)?.photoUrl;
+    const photos = [proofPhotos?.before, proofPhotos?.after, skipPhoto].filter((url): url is string => !!url);
+    const details = [
+      formatWasteType(entry.wasteType),
+      entry.fillLevel !== undefined ? `${entry.fillLevel}% full` : undefined,
+      entry.weight ? `${entry.weight.estimated ? '~' : ''}${Math.round(entry.weight.kg)} kg` : undefined,
+      entry.skipReason ? formatReason(entry.skipReason) : undefined,
+    ].filter((detail): detail is string => !!detail);
+    return `
+      <tr class="stop">
+        <td>${entry.stopNumber}</td>
+        <td>
+          <strong>${escapeHtml(entry.address || `Bin ${entry.binId}`)}</strong><br />
+          ${escapeHtml(details.join(' · '))}
+          ${entry.note ? `<br /><em>${escapeHtml(entry.note)}</em>` : ''}
+          ${photos.length ? `<div class="photos">${photos.map(url => `<img src="${escapeHtml(url)}" />`).join('')}</div>` : ''}
+        </td>
+        <td style="color: ${outcome.color}">${outcome.label}</td>
+        <td>${formatTime(entry.arrivedAt)}</td>
+        <td>${formatTime(entry.resolvedAt)}</td>
+        <td>${entry.minutesAtStop !== undefined ? `${Math.round(entry.minutesAtStop)} min` : '-'}</td>
+      </tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>${STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(schedule.name)}</h1>
+  <div class="subtitle">
+    ${schedule.date ? format(new Date(schedule.date), 'EEEE, MMMM d, yyyy') : ''}
+    ${schedule.collectorId ? ` · ${escapeHtml(`${schedule.collectorId.firstName} ${schedule.collectorId.lastName}`)}` : ''}
+  </div>
+  ${cancellation ? `
+  <h2 class="warning">Ended Early</h2>
+  <p>
+    ${escapeHtml(formatReason(cancellation.reason))} at ${formatTime(new Date(cancellation.cancelledAt))}
+    ${cancellation.note ? `<br /><em>${escapeHtml(cancellation.note)}</em>` : ''}
+  </p>` : ''}
+  <h2>Totals</h2>
+  <table class="totals">
+    ${totals.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}
+  </table>
+  <h2>Stops</h2>
+  <table>
+    <tr><th>#</th><th>Stop</th><th>Outcome</th><th>Arrived</th><th>Done</th><th>At Stop</th></tr>
+    ${stops.join('')}
+  </table>
+  <p class="subtitle">Generated ${format(new Date(), 'MMM d, yyyy h:mm a')}</p>
+</body>
+</html>`;
+};
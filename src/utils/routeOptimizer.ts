@@ -0,0 +1,115 @@
+// Orders the remaining stops of a route on the device, without a connection.
+// Nearest-neighbour builds a first tour, then 2-opt untangles it.
+
+import { haversineDistance, type LatLng } from './geo';
+
+interface OptimizerStop extends LatLng {
+  id: string;
+}
+
+// Travel times in seconds, keyed by origin then destination stop ID.
+// ROUTE_START and ROUTE_END stand for the truck's position and the end location.
+type TravelTimeMatrix = Record<string, Record<string, number>>;
+
+interface OptimizedRoute {
+  order: string[];
+  cost: number; // meters, or seconds when a travel-time matrix is given
+}
+
+export const ROUTE_START = '__start';
+export const ROUTE_END = '__end';
+
+// Used to turn a distance into a travel time for pairs missing from the matrix
+const FALLBACK_SPEED_MPS = 25 / 3.6;
+// 2-opt passes stop after this many even if they are still finding improvements
+const MAX_IMPROVEMENT_PASSES = 50;
+
+const createCostFunction = (travelTimes?: TravelTimeMatrix) =>
+  (from: OptimizerStop, to: OptimizerStop): number => {
+    const distance = haversineDistance(from, to);
+    if (!travelTimes) return distance;
+    return travelTimes[from.id]?.[to.id] ?? distance / FALLBACK_SPEED_MPS;
+  };
+
+const pathCost = (path: OptimizerStop[], cost: (from: OptimizerStop, to: OptimizerStop) => number) =>
+  path.reduce((total, stop, index) => (index === 0 ? 0 : total + cost(path[index - 1], stop)), 0);
+
+const withEnds = (start: LatLng, stops: OptimizerStop[], end?: LatLng): OptimizerStop[] => [
+  { ...start, id: ROUTE_START },
+  ...stops,
+  ...(end ? [{ ...end, id: ROUTE_END }] : []),
+];
+
+/**
+ * Total cost of visiting stops in the given order
+ * @param start Where the truck is now
+ * @param stops The stops, in visiting order
+ * @param end Where the route finishes, if anywhere fixed
+ * @param travelTimes Optional travel times between stops; missing pairs are estimated from distance
+ * @returns The cost in meters, or in seconds when travelTimes is given
+ */
+export const getRouteCost = (
+  start: LatLng,
+  stops: OptimizerStop[],
+  end?: LatLng,
+  travelTimes?: TravelTimeMatrix
+): number => pathCost(withEnds(start, stops, end), createCostFunction(travelTimes));
+
+/**
+ * Finds a short order for visiting the remaining stops, from the truck's position to the end location
+ * @param start Where the truck is now
+ * @param stops The stops still to visit
+ * @param end Where the route finishes, if anywhere fixed
+ * @param travelTimes Optional travel times between stops; missing pairs are estimated from distance
+ * @returns The stop IDs in the suggested order and the cost of that order
+ */
+export const optimizeStopOrder = (
+  start: LatLng,
+  stops: OptimizerStop[],
+  end?: LatLng,
+  travelTimes?: TravelTimeMatrix
+): OptimizedRoute => {
+  const cost = createCostFunction(travelTimes);
+  const origin: OptimizerStop = { ...start, id: ROUTE_START };
+
+  // Nearest neighbour: always drive to the closest stop not yet visited
+  const unvisited = [...stops];
+  const tour: OptimizerStop[] = [];
+  let current = origin;
+  while (unvisited.length > 0) {
+    let nearestIndex = 0;
+    unvisited.forEach((stop, index) => {
+      if (cost(current, stop) < cost(current, unvisited[nearestIndex])) nearestIndex = index;
+    });
+    current = unvisited.splice(nearestIndex, 1)[0];
+    tour.push(current);
+  }
+
+  // 2-opt: reverse any stretch of the tour that makes it cheaper, until nothing improves.
+  // The start and end stay fixed; whole paths are re-costed so one-way travel times are respected.
+  let best = withEnds(start, tour, end);
+  let bestCost = pathCost(best, cost);
+  const lastStop = tour.length;
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 1; i < lastStop; i++) {
+      for (let k = i + 1; k <= lastStop; k++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)];
+        const candidateCost = pathCost(candidate, cost);
+        if (candidateCost < bestCost - 1e-9) {
+          best = candidate;
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return {
+    order: best.filter(stop => stop.id !== ROUTE_START && stop.id !== ROUTE_END).map(stop => stop.id),
+    cost: bestCost,
+  };
+};
+
+export type { OptimizerStop, TravelTimeMatrix, OptimizedRoute };
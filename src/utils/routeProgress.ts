@@ -0,0 +1,82 @@
+// How far through a route the truck is, and whether it is keeping to the planned duration
+
+import { polylineLength, projectOntoPolyline, slicePolyline, type LatLng } from './geo';
+
+interface RouteProgressInput {
+  route: LatLng[]; // Planned path for the whole route
+  plannedMinutes: number; // Planned duration of the whole route
+  startedAt: Date;
+  position: LatLng | null; // The truck's position, if there is a GPS fix
+  visitedStops: LatLng[]; // Stops resolved so far, in visiting order
+  completedFraction: number; // Share of stops already resolved
+  now?: Date;
+}
+
+interface RouteProgress {
+  remainingMeters: number;
+  completedFraction: number; // From 0 to 1, half by distance along the route and half by stops resolved
+  projectedFinish: Date;
+  scheduleDeltaMinutes: number; // Positive when behind schedule, negative when ahead
+}
+
+// Follows the visited stops along the route, looking for each one only after the one before it,
+// so a route that passes the same street twice is followed pass by pass
+const followVisitedStops = (route: LatLng[], visitedStops: LatLng[]) => {
+  let remainingRoute = route;
+  let distanceAlong = 0;
+  for (const stop of visitedStops) {
+    const projection = projectOntoPolyline(stop, remainingRoute);
+    if (!projection) break;
+    distanceAlong += projection.distanceAlong;
+    remainingRoute = slicePolyline(remainingRoute, projection);
+  }
+  return { remainingRoute, distanceAlong };
+};
+
+/**
+ * Estimates the remaining distance, finish time and schedule delta for a running route.
+ * The truck is placed on the part of the route after the last visited stop, or at that stop
+ * when there is no GPS fix. The remaining part of the route is assumed to take its planned share
+ * of the planned duration.
+ * @returns The progress estimate
+ */
+export const getRouteProgress = ({
+  route,
+  plannedMinutes,
+  startedAt,
+  position,
+  visitedStops,
+  completedFraction: stopsFraction,
+  now = new Date(),
+}: RouteProgressInput): RouteProgress => {
+  const totalMeters = polylineLength(route);
+  const stopsDone = Math.min(1, Math.max(0, stopsFraction));
+
+  let remainingMeters: number;
+  let completedFraction: number;
+  if (totalMeters > 0) {
+    const { remainingRoute, distanceAlong } = followVisitedStops(route, visitedStops);
+    const projection = position ? projectOntoPolyline(position, remainingRoute) : null;
+    const truckAlong = distanceAlong + (projection?.distanceAlong ?? 0);
+    // Getting back onto the route counts towards what is left
+    remainingMeters = (projection?.distance ?? 0) + Math.max(0, totalMeters - truckAlong);
+    // Resolving a stop moves progress on even while the truck stands still
+    completedFraction = (Math.min(1, truckAlong / totalMeters) + stopsDone) / 2;
+  } else {
+    completedFraction = stopsDone;
+    remainingMeters = 0;
+  }
+
+  const plannedMs = plannedMinutes * 60000;
+  const elapsedMs = now.getTime() - startedAt.getTime();
+  const expectedElapsedMs = plannedMs * completedFraction;
+
+  return {
+    remainingMeters,
+    completedFraction,
+    projectedFinish: new Date(now.getTime() + plannedMs * (1 - completedFraction)),
+    scheduleDeltaMinutes: Math.round((elapsedMs - expectedElapsedMs) / 60000),
+  };
+};
+
+export type { RouteProgressInput, RouteProgress };
@@ -0,0 +1,220 @@
+// Post-route report: what happened at each stop and where the time went
+
+import {
+  type Bin,
+  type CollectedWeight,
+  type Schedule,
+  type SkipReason,
+  type TrackPoint,
+} from '../services/api';
+import { fromGeoJson, haversineDistance, type LatLng } from './geo';
+import { getBreakMinutes, getWorkingMinutes } from './shiftTime';
+import { getCollectedWeight } from './truckLoad';
+import { groupByWasteType, normalizeWasteType } from './wasteTypes';
+
+type StopOutcome = 'collected' | 'skipped' | 'handed-back' | 'not-visited';
+
+// How each outcome is shown, on the summary screen and in the printed report alike
+export const OUTCOME_LABELS: Record<StopOutcome, { label: string; color: string }> = {
+  'collected': { label: 'Collected', color: '#12805c' },
+  'skipped': { label: 'Skipped', color: '#4B5563' },
+  'handed-back': { label: 'Handed back', color: '#B45309' },
+  'not-visited': { label: 'Not visited', color: '#9E9E9E' },
+};
+
+interface StopTimelineEntry {
+  binId: string;
+  stopNumber: number;
+  address?: string;
+  location?: LatLng;
+  wasteType: string;
+  fillLevel?: number;
+  outcome: StopOutcome;
+  arrivedAt?: Date;
+  departedAt?: Date;
+  resolvedAt?: Date; // When the bin was marked collected or skipped
+  minutesAtStop?: number;
+  skipReason?: SkipReason;
+  note?: string;
+  weight?: CollectedWeight;
+}
+
+interface FillLevelBucket {
+  label: string;
+  count: number;
+}
+
+interface WasteTypeTotal {
+  wasteType: string;
+  count: number;
+  weightKg: number;
+  estimated: boolean; // Includes at least one estimated weight
+}
+
+interface RouteReport {
+  timeline: StopTimelineEntry[];
+  collectedCount: number;
+  skippedCount: number;
+  handedBackCount: number;
+  plannedDistanceKm: number;
+  actualDistanceKm: number | null; // null when no driven path was uploaded
+  start?: Date;
+  end?: Date;
+  workingMinutes: number; // Start to end, without breaks
+  breakMinutes: number;
+  drivingMinutes: number;
+  stopMinutes: number;
+  idleMinutes: number; // Working time spent neither driving nor at a stop
+  averageStopMinutes: number;
+  expectedMinutes: number;
+  efficiency: number; // Planned over actual working time, as a percentage
+  fillLevels: FillLevelBucket[];
+  byWasteType: WasteTypeTotal[];
+  totalWeightKg: number;
+  totalWeightEstimated: boolean;
+}
+
+// Below this average speed between two GPS points the truck counts as standing still
+const MIN_DRIVING_SPEED_MPS = 1.5;
+// Longer gaps between GPS points are missing data, such as a break, and are not counted as driving
+const MAX_TRACK_GAP_MS = 2 * 60000;
+const FILL_LEVEL_BUCKETS = [
+  { label: '0-24%', max: 25 },
+  { label: '25-49%', max: 50 },
+  { label: '50-74%', max: 75 },
+  { label: '75-100%', max: Infinity },
+];
+
+/**
+ * Length of a driven path
+ * @returns The distance in km
+ */
+export const getTrackDistanceKm = (track: TrackPoint[]): number =>
+  track.reduce((total, point, index) => (index === 0 ? 0 : total + haversineDistance(track[index - 1], point)), 0) / 1000;
+
+/**
+ * Time spent moving along a driven path
+ * @returns The driving time in minutes
+ */
+export const getDrivingMinutes = (track: TrackPoint[]): number =>
+  track.reduce((total, point, index) => {
+    if (index === 0) return 0;
+    const previous = track[index - 1];
+    const elapsedMs = new Date(point.timestamp).getTime() - new Date(previous.timestamp).getTime();
+    if (elapsedMs <= 0 || elapsedMs > MAX_TRACK_GAP_MS) return total;
+    const speed = haversineDistance(previous, point) / (elapsedMs / 1000);
+    return speed >= MIN_DRIVING_SPEED_MPS ? total + elapsedMs / 60000 : total;
+  }, 0);
+
+/**
+ * Counts bins by fill level in quarters
+ */
+export const getFillLevelDistribution = (bins: Pick<Bin, 'fillLevel'>[]): FillLevelBucket[] =>
+  FILL_LEVEL_BUCKETS.map((bucket, index) => ({
+    label: bucket.label,
+    count: bins.filter(bin => {
+      const fillLevel = bin.fillLevel || 0;
+      return fillLevel < bucket.max && (index === 0 || fillLevel >= FILL_LEVEL_BUCKETS[index - 1].max);
+    }).length,
+  }));
+
+/**
+ * Builds the post-route report for a finished or abandoned schedule
+ * @param schedule The schedule with its completed and skipped bins, visits, breaks and driven path
+ * @returns The report
+ */
+export const buildRouteReport = (schedule: Schedule): RouteReport => {
+  const bins = (schedule.binSequence as (string | Bin)[]).filter((bin): bin is Bin => typeof bin !== 'string');
+  const completedBins = schedule.completedBins ?? [];
+  const skippedBins = schedule.skippedBins ?? [];
+  const remainingBins = schedule.cancellation?.remainingBins ?? [];
+  const stopVisits = schedule.stopVisits ?? [];
+  const breaks = schedule.breaks ?? [];
+  const track = schedule.actualRoute ?? [];
+
+  const timeline: StopTimelineEntry[] = bins.map((bin, index) => {
+    const visit = stopVisits.find(stopVisit => stopVisit.binId === bin._id);
+    const skip = skippedBins.find(skipped => skipped.binId === bin._id);
+    const arrivedAt = visit?.arrivedAt ? new Date(visit.arrivedAt) : undefined;
+    const departedAt = visit?.departedAt ? new Date(visit.departedAt) : undefined;
+    const collectedAt = schedule.binCollectedAt?.[bin._id];
+    const collected = completedBins.includes(bin._id);
+    let outcome: StopOutcome = 'not-visited';
+    if (collected) outcome = 'collected';
+    else if (skip) outcome = 'skipped';
+    else if (remainingBins.includes(bin._id)) outcome = 'handed-back';
+    return {
+      binId: bin._id,
+      stopNumber: index + 1,
+      address: bin.address,
+      location: bin.location?.coordinates ? fromGeoJson(bin.location.coordinates) : undefined,
+      wasteType: normalizeWasteType(bin.wasteType),
+      fillLevel: bin.fillLevel,
+      outcome,
+      arrivedAt,
+      departedAt,
+      resolvedAt: collected && collectedAt ? new Date(collectedAt) : skip?.skippedAt ? new Date(skip.skippedAt) : undefined,
+      minutesAtStop: arrivedAt && departedAt ? (departedAt.getTime() - arrivedAt.getTime()) / 60000 : undefined,
+      skipReason: skip?.reason,
+      note: skip?.note,
+      weight: collected ? getCollectedWeight(bin, schedule.binWeights) : undefined,
+    };
+  });
+
+  // Completed bins may be known without the bin details, so count from the IDs
+  const collectedCount = schedule.completedBins
+    ? completedBins.length
+    : schedule.binSequence.length - skippedBins.length - remainingBins.length;
+  const visitedStops = schedule.binSequence.length - remainingBins.length;
+
+  const start = schedule.actualStartTime ? new Date(schedule.actualStartTime) : undefined;
+  const endTime = schedule.actualEndTime ?? schedule.cancellation?.cancelledAt;
+  const end = endTime ? new Date(endTime) : undefined;
+  const workingMinutes = start && end ? getWorkingMinutes(start, end, breaks) : 0;
+  const breakMinutes = start && end ? Math.round(getBreakMinutes(breaks, start, end)) : 0;
+
+  const timedStops = timeline.filter(entry => entry.minutesAtStop !== undefined);
+  const stopMinutes = timedStops.reduce((total, entry) => total + (entry.minutesAtStop as number), 0);
+  const drivingMinutes = getDrivingMinutes(track);
+
+  // A route ended early is measured against the share of stops it visited
+  const expectedMinutes = schedule.cancellation
+    ? schedule.duration * (visitedStops / (schedule.binSequence.length || 1))
+    : schedule.duration;
+
+  const byWasteType = groupByWasteType(bins.filter(bin => completedBins.includes(bin._id))).map(group => {
+    const weights = group.bins.map(bin => getCollectedWeight(bin, schedule.binWeights));
+    return {
+      wasteType: group.wasteType,
+      count: group.bins.length,
+      weightKg: weights.reduce((total, weight) => total + weight.kg, 0),
+      estimated: weights.some(weight => weight.estimated),
+    };
+  });
+
+  return {
+    timeline,
+    collectedCount,
+    skippedCount: skippedBins.length,
+    handedBackCount: remainingBins.length,
+    plannedDistanceKm: schedule.distance,
+    actualDistanceKm: track.length > 1 ? getTrackDistanceKm(track) : null,
+    start,
+    end,
+    workingMinutes,
+    breakMinutes,
+    drivingMinutes: Math.round(drivingMinutes),
+    stopMinutes: Math.round(stopMinutes),
+    // Without a driven path the time between stops can't be split into driving and idling
+    idleMinutes: track.length > 1 ? Math.max(0, Math.round(workingMinutes - drivingMinutes - stopMinutes)) : 0,
+    averageStopMinutes: timedStops.length ? stopMinutes / timedStops.length : 0,
+    expectedMinutes,
+    efficiency: expectedMinutes && workingMinutes ? Math.round((expectedMinutes / workingMinutes) * 100) : 0,
+    fillLevels: getFillLevelDistribution(bins),
+    byWasteType,
+    totalWeightKg: byWasteType.reduce((total, group) => total + group.weightKg, 0),
+    totalWeightEstimated: byWasteType.some(group => group.estimated),
+  };
+};
+
+export type { StopOutcome, StopTimelineEntry, FillLevelBucket, WasteTypeTotal, RouteReport };
@@ -0,0 +1,27 @@
+// Working time on a route, leaving out the time it spent paused
+
+import { type ShiftBreak } from '../services/api';
+
+/**
+ * Minutes spent on breaks within a period
+ * @param breaks The route's breaks; one still going on counts up to the end of the period
+ * @param from Start of the period
+ * @param until End of the period
+ * @returns The break time in minutes
+ */
+export const getBreakMinutes = (breaks: ShiftBreak[], from: Date, until: Date): number =>
+  breaks.reduce((total, shiftBreak) => {
+    const start = Math.max(new Date(shiftBreak.startedAt).getTime(), from.getTime());
+    const end = Math.min(shiftBreak.endedAt ? new Date(shiftBreak.endedAt).getTime() : until.getTime(), until.getTime());
+    return total + Math.max(0, end - start) / 60000;
+  }, 0);
+
+/**
+ * Minutes spent working on a route, with breaks taken out
+ * @param start When the route was started
+ * @param end When the route was finished, or now for a route still running
+ * @param breaks The route's breaks
+ * @returns The working time in whole minutes
+ */
+export const getWorkingMinutes = (start: Date, end: Date, breaks: ShiftBreak[] = []): number =>
+  Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000 - getBreakMinutes(breaks, start, end)));
@@ -0,0 +1,54 @@
+// Estimates how full the truck is from the bins collected so far
+
+import Constants from 'expo-constants';
+import { type Bin, type CollectedWeight, type Collector, type DumpTrip } from '../services/api';
+
+// Assumed weight of a full bin when the bin has no capacity of its own
+export const DEFAULT_BIN_CAPACITY_KG = 100;
+// Truck capacity when the collector's vehicle has none (`expo.extra.collection.truckCapacityKg` in app.json)
+export const DEFAULT_TRUCK_CAPACITY_KG: number = Constants.expoConfig?.extra?.collection?.truckCapacityKg ?? 8000;
+// Warn once the truck is this full
+export const NEAR_FULL_FRACTION = 0.9;
+
+/**
+ * Estimated weight of waste in a bin
+ * @param bin The bin, with its fill level as a percentage
+ * @returns The weight in kg
+ */
+export const estimateBinLoad = (bin: Pick<Bin, 'fillLevel' | 'capacity'>): number =>
+  ((bin.fillLevel || 0) / 100) * (bin.capacity ?? DEFAULT_BIN_CAPACITY_KG);
+
+/**
+ * Weight collected from a bin: the recorded weight if there is one, otherwise the estimate
+ * @param bin The collected bin
+ * @param binWeights Weights recorded at the stops, keyed by bin ID
+ * @returns The weight, marked as estimated when nothing was recorded
+ */
+export const getCollectedWeight = (
+  bin: Pick<Bin, '_id' | 'fillLevel' | 'capacity'>,
+  binWeights: Record<string, CollectedWeight> = {}
+): CollectedWeight => binWeights[bin._id] ?? { kg: estimateBinLoad(bin), estimated: true };
+
+/**
+ * Load capacity of the collector's truck
+ * @returns The capacity in kg
+ */
+export const getTruckCapacity = (collector: Collector | null): number =>
+  collector?.vehicle?.capacity || DEFAULT_TRUCK_CAPACITY_KG;
+
+/**
+ * Estimated load on the truck now
+ * @param collectedBins The bins collected so far on this route
+ * @param dumpTrips The trips already made to empty the truck
+ * @param binWeights Weights recorded at the stops, used instead of the estimate where present
+ * @returns The load in kg
+ */
+export const getTruckLoad = (
+  collectedBins: Pick<Bin, '_id' | 'fillLevel' | 'capacity'>[],
+  dumpTrips: DumpTrip[],
+  binWeights?: Record<string, CollectedWeight>
+): number => {
+  const collected = collectedBins.reduce((total, bin) => total + getCollectedWeight(bin, binWeights).kg, 0);
+  const emptied = dumpTrips.reduce((total, trip) => total + trip.loadKg, 0);
+  return Math.max(0, collected - emptied);
+};
@@ -0,0 +1,66 @@
+// Waste streams. Bins without a type are treated as general waste.
+
+import { type Bin } from '../services/api';
+
+interface WasteTypeGroup<T> {
+  wasteType: string;
+  bins: T[];
+}
+
+/**
+ * Lower-cased, trimmed waste type so "Plastic " and "plastic" match
+ * @param wasteType The type as stored on a bin or schedule
+ */
+export const normalizeWasteType = (wasteType?: string | null): string =>
+  wasteType && wasteType.trim() ? wasteType.trim().toLowerCase() : 'general';
+
+/**
+ * Waste type for display, e.g. "plastic" becomes "Plastic"
+ */
+export const formatWasteType = (wasteType?: string | null): string => {
+  const type = normalizeWasteType(wasteType);
+  return type.charAt(0).toUpperCase() + type.slice(1);
+};
+
+/**
+ * Whether a bin belongs to the stream a run collects
+ * @param bin The bin to check
+ * @param runWasteType The run's waste type; a run without one collects everything
+ */
+export const isBinForRun = (bin: Pick<Bin, 'wasteType'>, runWasteType?: string | null): boolean =>
+  !runWasteType || normalizeWasteType(bin.wasteType) === normalizeWasteType(runWasteType);
+
+/**
+ * Groups bins by waste type, in order of first appearance
+ */
+export const groupByWasteType = <T extends Pick<Bin, 'wasteType'>>(bins: T[]): WasteTypeGroup<T>[] => {
+  const groups = new Map<string, T[]>();
+  bins.forEach(bin => {
+    const type = normalizeWasteType(bin.wasteType);
+    groups.set(type, [...(groups.get(type) ?? []), bin]);
+  });
+  return Array.from(groups, ([wasteType, grouped]) => ({ wasteType, bins: grouped }));
+};
+
+/**
+ * Background colour for a waste type tag
+ */
+export const getWasteTypeColor = (type: string): string => {
+  switch (normalizeWasteType(type)) {
+    case 'plastic':
+      return '#E1F5FE';
+    case 'paper':
+      return '#E8F5E9';
+    case 'glass':
+      return '#F3E5F5';
+    case 'metal':
+      return '#EEEEEE';
+    case 'organic':
+      return '#F1F8E9';
+    case 'general':
+    default:
+      return '#ECEFF1';
+  }
+};
+
+export type { WasteTypeGroup };